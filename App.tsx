@@ -6,8 +6,12 @@ import * as Linking from 'expo-linking';
 import { colors } from './src/styles/theme';
 import { AuthProvider, useAuth } from './src/context/AuthContext';
 import { registerForPushNotifications, setupNotificationHandlers } from './src/services/notifications';
+import { outbox } from './src/services/outbox';
 import { apiClient } from './src/lib/api';
-import { getErrorMessage } from './src/utils/errors';
+import { groupService, GroupServiceError } from './src/services/groupService';
+import { PlaceholderClaim } from './src/types/group';
+import { confirm } from './src/utils/confirm';
+import { getErrorMessage, isInviteLinkError } from './src/utils/errors';
 import { APP_STORE_URL, PLAY_STORE_URL } from './src/utils/constants';
 import LoginScreen from './src/screens/LoginScreen';
 import SignupScreen from './src/screens/SignupScreen';
@@ -15,8 +19,10 @@ import HomeScreen from './src/screens/HomeScreen';
 import GroupDetailScreen from './src/screens/GroupDetailScreen';
 import ProfileScreen from './src/screens/ProfileScreen';
 import InviteLandingScreen from './src/screens/InviteLandingScreen';
+import RevealScreen from './src/screens/RevealScreen';
+import SlipGiftIdeasScreen from './src/screens/SlipGiftIdeasScreen';
 
-type Screen = 'home' | 'groupDetail' | 'profile' | 'inviteLanding';
+type Screen = 'home' | 'groupDetail' | 'profile' | 'inviteLanding' | 'reveal' | 'slipGiftIdeas';
 
 function AppContent() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -38,18 +44,120 @@ function AppContent() {
     }
     return null;
   };
+
+  // Reveal links of managed groups are opened in the browser by people without an account
+  const getInitialRevealToken = (): string | null => {
+    if (Platform.OS === 'web' && typeof window !== 'undefined') {
+      const pathMatch = new URL(window.location.href).pathname.match(/^\/reveal\/([^/]+)$/);
+      return pathMatch ? pathMatch[1] : null;
+    }
+    return null;
+  };
+
+  // So are the gift ideas links on printed draw slips
+  const getInitialSlipToken = (): string | null => {
+    if (Platform.OS === 'web' && typeof window !== 'undefined') {
+      const pathMatch = new URL(window.location.href).pathname.match(/^\/slip\/([^/]+)$/);
+      return pathMatch ? pathMatch[1] : null;
+    }
+    return null;
+  };
   
-  const [currentScreen, setCurrentScreen] = useState<Screen>(getInitialInviteToken() ? 'inviteLanding' : 'home');
+  const [currentScreen, setCurrentScreen] = useState<Screen>(
+    getInitialRevealToken() ? 'reveal'
+      : getInitialSlipToken() ? 'slipGiftIdeas'
+      : getInitialInviteToken() ? 'inviteLanding'
+      : 'home'
+  );
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
   const [refreshHomeKey, setRefreshHomeKey] = useState(0);
   const [inviteToken, setInviteToken] = useState<string | null>(getInitialInviteToken());
   const [pendingInviteToken, setPendingInviteToken] = useState<string | null>(null);
+  // Group link opened while signed out, opened once signed in
+  const [pendingGroupLink, setPendingGroupLink] = useState<string | null>(null);
+  const [revealToken, setRevealToken] = useState<string | null>(getInitialRevealToken());
+  const [slipToken, setSlipToken] = useState<string | null>(getInitialSlipToken());
+  // Claim link opened while signed out, taken over once signed up or in
+  const [pendingClaim, setPendingClaim] = useState<{ token: string; claim: PlaceholderClaim } | null>(null);
   const notificationListener = useRef<Notifications.Subscription | undefined>(undefined);
   const responseListener = useRef<Notifications.Subscription | undefined>(undefined);
 
-  // Handle deep linking for invite links
+  const claimPlaceholder = async (token: string) => {
+    try {
+      const groupId = await groupService.claimPlaceholder(token);
+      setSelectedGroupId(groupId.toString());
+      setCurrentScreen('groupDetail');
+      setRefreshHomeKey(prev => prev + 1);
+    } catch (error) {
+      Alert.alert('Error', error instanceof GroupServiceError ? error.appError.userMessage : getErrorMessage(error));
+    }
+  };
+
+  const handleClaimLink = async (token: string) => {
+    let claim: PlaceholderClaim;
+    try {
+      claim = await groupService.getPlaceholderClaim(token);
+    } catch (error) {
+      Alert.alert(
+        'Claim Link Unavailable',
+        error instanceof GroupServiceError ? error.appError.userMessage : getErrorMessage(error)
+      );
+      return;
+    }
+
+    if (!isAuthenticated) {
+      setPendingClaim({ token, claim });
+      setShowSignup(true);
+      // Otherwise the link is handled again once the initial URL is processed after signing in
+      if (Platform.OS === 'web' && typeof window !== 'undefined') {
+        window.history.replaceState(null, '', '/');
+      }
+      return;
+    }
+
+    confirm(
+      `Join as ${claim.display_name}`,
+      `You'll take over ${claim.display_name}'s place in "${claim.group.name}", including their assignment and gift ideas.`,
+      () => claimPlaceholder(token)
+    );
+  };
+
+  // Handle deep linking for invite links and group links (e.g. from calendar events)
   const handleDeepLink = async (event: { url: string }) => {
       const parsed = Linking.parse(event.url);
+
+      // Group links: geschenk25://groups/ID or https://domain.com/groups/ID
+      const segments = [parsed.scheme === 'geschenk25' ? parsed.hostname : null, ...(parsed.path || '').split('/')]
+        .filter(Boolean);
+      if (segments[0] === 'groups' && segments[1] && /^\d+$/.test(segments[1])) {
+        if (isAuthenticated) {
+          setSelectedGroupId(segments[1]);
+          setCurrentScreen('groupDetail');
+        } else {
+          setPendingGroupLink(event.url);
+        }
+        return;
+      }
+      
+      // Claim links for placeholder members: geschenk25://claim/TOKEN or https://domain.com/claim/TOKEN
+      if (segments[0] === 'claim' && segments[1]) {
+        handleClaimLink(segments[1]);
+        return;
+      }
+
+      // Reveal links for participants of managed groups: geschenk25://reveal/TOKEN or https://domain.com/reveal/TOKEN
+      if (segments[0] === 'reveal' && segments[1]) {
+        setRevealToken(segments[1]);
+        setCurrentScreen('reveal');
+        return;
+      }
+
+      // Gift ideas links on printed draw slips: geschenk25://slip/TOKEN or https://domain.com/slip/TOKEN
+      if (segments[0] === 'slip' && segments[1]) {
+        setSlipToken(segments[1]);
+        setCurrentScreen('slipGiftIdeas');
+        return;
+      }
       
       let token: string | null = null;
       
@@ -86,7 +194,11 @@ function AppContent() {
       // Get group info
       const groupResponse = await apiClient.getGroupByInviteToken(token);
       if (groupResponse.error || !groupResponse.data) {
-        Alert.alert('Error', groupResponse.error || 'Invalid invite link');
+        // Expired, revoked and used up links get their own explanation
+        Alert.alert(
+          isInviteLinkError(groupResponse.appError) ? 'Invite Link Unavailable' : 'Error',
+          groupResponse.error || 'Invalid invite link'
+        );
         return;
       }
 
@@ -107,7 +219,19 @@ function AppContent() {
                 try {
                   const joinResponse = await apiClient.joinGroupByToken(token);
                   if (joinResponse.error) {
-                    Alert.alert('Error', joinResponse.error);
+                    Alert.alert(
+                      isInviteLinkError(joinResponse.appError) ? 'Invite Link Unavailable' : 'Error',
+                      joinResponse.error
+                    );
+                    return;
+                  }
+
+                  // Links that require approval only create a join request
+                  if (joinResponse.data?.status === 'pending') {
+                    Alert.alert(
+                      'Request Sent',
+                      `The owner of "${group.name}" has to approve your request. You will get a notification once they have decided.`
+                    );
                     return;
                   }
                   
@@ -194,11 +318,30 @@ function AppContent() {
     }
   }, [isAuthenticated, pendingInviteToken]);
 
+  // Open the pending group link after authentication
+  useEffect(() => {
+    if (isAuthenticated && pendingGroupLink) {
+      handleDeepLink({ url: pendingGroupLink });
+      setPendingGroupLink(null);
+    }
+  }, [isAuthenticated, pendingGroupLink]);
+
+  // Take over the placeholder from a claim link after signing up or in
+  useEffect(() => {
+    if (isAuthenticated && pendingClaim) {
+      claimPlaceholder(pendingClaim.token);
+      setPendingClaim(null);
+    }
+  }, [isAuthenticated, pendingClaim]);
+
   useEffect(() => {
     if (isAuthenticated) {
       // Register for push notifications when authenticated
       registerForPushNotifications();
 
+      // Replay changes that were made while offline
+      const stopOutbox = outbox.start();
+
       // Set up notification handlers
       const handlers = setupNotificationHandlers(
         (notification) => {
@@ -253,8 +396,12 @@ function AppContent() {
             );
           }
           
-          // Navigate to group detail if it's an assignment notification
-          if (data?.type === 'assignment' && data?.groupId) {
+          // Navigate to group detail if it's an assignment notification, an approved join
+          // request, or (for the owner and admins) a new join request to review
+          if (
+            (data?.type === 'assignment' || data?.type === 'join_request_approved' || data?.type === 'join_request')
+            && data?.groupId
+          ) {
             const groupId = Number(data.groupId);
             setSelectedGroupId(groupId.toString());
             setCurrentScreen('groupDetail');
@@ -268,10 +415,43 @@ function AppContent() {
 
       return () => {
         handlers.cleanup();
+        stopOutbox();
       };
     }
   }, [isAuthenticated]);
 
+  // Reveal links work without an account (before authentication check)
+  if (currentScreen === 'reveal' && revealToken) {
+    return (
+      <RevealScreen
+        token={revealToken}
+        onDone={() => {
+          setRevealToken(null);
+          setCurrentScreen('home');
+          // Otherwise the used link is handled again once the initial URL is processed
+          if (Platform.OS === 'web' && typeof window !== 'undefined') {
+            window.history.replaceState(null, '', '/');
+          }
+        }}
+      />
+    );
+  }
+
+  if (currentScreen === 'slipGiftIdeas' && slipToken) {
+    return (
+      <SlipGiftIdeasScreen
+        token={slipToken}
+        onDone={() => {
+          setSlipToken(null);
+          setCurrentScreen('home');
+          if (Platform.OS === 'web' && typeof window !== 'undefined') {
+            window.history.replaceState(null, '', '/');
+          }
+        }}
+      />
+    );
+  }
+
   // Show invite landing screen on mobile web (before authentication check)
   if (currentScreen === 'inviteLanding' && inviteToken) {
     return (
@@ -305,7 +485,15 @@ function AppContent() {
 
   if (!isAuthenticated) {
     if (showSignup) {
-      return <SignupScreen onSwitchToLogin={() => setShowSignup(false)} />;
+      return (
+        <SignupScreen
+          onSwitchToLogin={() => setShowSignup(false)}
+          notice={pendingClaim
+            ? `Create an account to join "${pendingClaim.claim.group.name}" as ${pendingClaim.claim.display_name}.`
+            : undefined}
+          initialDisplayName={pendingClaim?.claim.display_name}
+        />
+      );
     }
     return <LoginScreen onSwitchToSignup={() => setShowSignup(true)} />;
   }
@@ -336,6 +524,7 @@ function AppContent() {
         setCurrentScreen('groupDetail');
       }}
       onNavigateToProfile={() => setCurrentScreen('profile')}
+      onJoinWithCode={(inviteUrl) => handleDeepLink({ url: inviteUrl })}
     />
   );
 }
@@ -0,0 +1,114 @@
+/**
+ * Local stand-in for the realtime endpoint of the API, for development.
+ *
+ *   npm run realtime:dev
+ *   EXPO_PUBLIC_REALTIME_URL=ws://localhost:3001/api/realtime npm start
+ *
+ * Events are published with a POST to /publish, e.g.:
+ *
+ *   curl -X POST localhost:3001/publish \
+ *     -d '{"channel":"group:1","event":{"type":"member_joined","group_id":1,"user_id":2}}'
+ *
+ * Any non-empty token is accepted; connecting without one is rejected with the
+ * same close code the API uses for expired tokens.
+ */
+const http = require('http');
+const { WebSocketServer } = require('ws');
+
+const PORT = Number(process.env.REALTIME_PORT) || 3001;
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+// channel -> sockets subscribed to it
+const subscriptions = new Map();
+
+function subscribe(socket, channel) {
+  if (!subscriptions.has(channel)) {
+    subscriptions.set(channel, new Set());
+  }
+  subscriptions.get(channel).add(socket);
+}
+
+function unsubscribe(socket, channel) {
+  const sockets = subscriptions.get(channel);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    subscriptions.delete(channel);
+  }
+}
+
+function publish(channel, event) {
+  const sockets = subscriptions.get(channel) || new Set();
+  const message = JSON.stringify({ channel, event });
+  sockets.forEach(socket => socket.send(message));
+  return sockets.size;
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/publish') {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      const { channel, event } = JSON.parse(body);
+      if (typeof channel !== 'string' || !event || typeof event.type !== 'string') {
+        throw new Error('Expected { channel, event: { type } }');
+      }
+      const delivered = publish(channel, event);
+      console.log(`Published ${event.type} to ${channel} (${delivered} subscriber(s))`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ delivered }));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: error.message }));
+    }
+  });
+});
+
+const wss = new WebSocketServer({ server, path: '/api/realtime' });
+
+wss.on('connection', (socket, req) => {
+  const token = new URL(req.url, `http://${req.headers.host}`).searchParams.get('token');
+  if (!token) {
+    socket.close(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized');
+    return;
+  }
+
+  const channels = new Set();
+  console.log('Client connected');
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      return;
+    }
+    if (typeof message.channel !== 'string') return;
+
+    if (message.type === 'subscribe') {
+      channels.add(message.channel);
+      subscribe(socket, message.channel);
+      console.log(`Subscribed to ${message.channel}`);
+    } else if (message.type === 'unsubscribe') {
+      channels.delete(message.channel);
+      unsubscribe(socket, message.channel);
+    }
+  });
+
+  socket.on('close', () => {
+    channels.forEach(channel => unsubscribe(socket, channel));
+    console.log('Client disconnected');
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Realtime dev server listening on ws://localhost:${PORT}/api/realtime`);
+});
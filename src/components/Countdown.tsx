@@ -0,0 +1,45 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Text, StyleProp, TextStyle } from 'react-native';
+import { formatCountdown } from '../utils/event';
+
+// How often to check again while the server has not run the draw yet
+const ELAPSED_RETRY_MS = 15000;
+
+interface CountdownProps {
+  drawAt: string;
+  style?: StyleProp<TextStyle>;
+  // Called once the time is up, and again every few seconds for as long as this stays shown
+  onElapsed: () => void;
+}
+
+/**
+ * Time left until a scheduled draw, ticking every second without re-rendering its parent
+ */
+export default function Countdown({ drawAt, style, onElapsed }: CountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const onElapsedRef = useRef(onElapsed);
+  onElapsedRef.current = onElapsed;
+
+  const target = new Date(drawAt).getTime();
+  const elapsed = now >= target;
+
+  useEffect(() => {
+    if (elapsed) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [target, elapsed]);
+
+  useEffect(() => {
+    if (!elapsed) return;
+    onElapsedRef.current();
+    const interval = setInterval(() => onElapsedRef.current(), ELAPSED_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [elapsed]);
+
+  return (
+    <Text style={style}>
+      {elapsed ? 'Drawing now…' : formatCountdown(target - now)}
+    </Text>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, spacing, typography } from '../styles/theme';
+
+interface OfflineBannerProps {
+  updatedAt: number | null;
+}
+
+/**
+ * Shown while a screen displays cached data because the server could not be reached
+ */
+export default function OfflineBanner({ updatedAt }: OfflineBannerProps) {
+  const lastUpdated = updatedAt
+    ? new Date(updatedAt).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : null;
+
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.title}>You're offline</Text>
+      <Text style={styles.text}>
+        {lastUpdated ? `Last updated ${lastUpdated}` : 'No saved data available yet'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.warningBackground,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.warning,
+  },
+  title: {
+    ...typography.bodySmall,
+    color: colors.text,
+    fontWeight: '600',
+  },
+  text: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+});
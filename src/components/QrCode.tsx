@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { encodeQrCode } from '../utils/qrcode';
+
+// Light border scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+interface QrCodeProps {
+  value: string;
+  size: number;
+}
+
+/**
+ * Renders text as a QR code, drawing each row's dark runs as a single view
+ */
+export default function QrCode({ value, size }: QrCodeProps) {
+  const { runs, moduleCount } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const darkRuns: { x: number; y: number; length: number }[] = [];
+    modules.forEach((row, y) => {
+      let start = -1;
+      row.forEach((dark, x) => {
+        if (dark && start < 0) start = x;
+        if (start >= 0 && (!dark || x === row.length - 1)) {
+          darkRuns.push({ x: start, y, length: (dark ? x + 1 : x) - start });
+          start = -1;
+        }
+      });
+    });
+    return { runs: darkRuns, moduleCount: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+  // Whole pixels per module, so rows don't leave hairline gaps between them
+  const moduleSize = Math.max(1, Math.floor(size / moduleCount));
+
+  return (
+    <View style={[styles.container, { width: moduleCount * moduleSize, height: moduleCount * moduleSize }]}>
+      {runs.map((run) => (
+        <View
+          key={`${run.y}-${run.x}`}
+          style={[
+            styles.module,
+            {
+              left: (run.x + QUIET_ZONE) * moduleSize,
+              top: (run.y + QUIET_ZONE) * moduleSize,
+              width: run.length * moduleSize,
+              height: moduleSize,
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  // Always black on white, scanners don't handle inverted codes well
+  container: {
+    backgroundColor: '#FFFFFF',
+  },
+  module: {
+    position: 'absolute',
+    backgroundColor: '#000000',
+  },
+});
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiClient } from '../lib/api';
+import { offlineCache } from '../services/offlineCache';
+import { outbox } from '../services/outbox';
 import { getErrorMessage, ErrorType } from '../utils/errors';
 
 interface AuthContextType {
@@ -20,6 +22,7 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 const TOKEN_KEY = '@auth_token';
+const REFRESH_TOKEN_KEY = '@auth_refresh_token';
 const USER_KEY = '@auth_user';
 
 export const useAuth = () => {
@@ -39,19 +42,36 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isLoading, setIsLoading] = useState<boolean>(true);
 
   useEffect(() => {
+    apiClient.setSessionListener({
+      onTokensRefreshed: async ({ token, refresh_token }) => {
+        await AsyncStorage.multiSet([
+          [TOKEN_KEY, token],
+          [REFRESH_TOKEN_KEY, refresh_token],
+        ]);
+      },
+      onSessionExpired: () => {
+        signOut();
+      },
+    });
     checkAuth();
+
+    return () => {
+      apiClient.setSessionListener(null);
+    };
   }, []);
 
   const checkAuth = async () => {
     try {
       const token = await AsyncStorage.getItem(TOKEN_KEY);
+      const refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
       const userStr = await AsyncStorage.getItem(USER_KEY);
 
       if (token && userStr) {
-        apiClient.setToken(token);
+        // Sessions from before refresh tokens were issued only have an access token
+        apiClient.setSession(token, refreshToken);
         const user = JSON.parse(userStr);
         
-        // Verify token is still valid
+        // Verify token is still valid (an expired access token is refreshed transparently)
         const response = await apiClient.getMe();
         if (response.data) {
           setIsAuthenticated(true);
@@ -59,16 +79,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           setUsername(response.data.user.username);
           setDisplayName(response.data.user.display_name);
           setImageUrl(response.data.user.image_url || null);
+        } else if (response.appError?.type === ErrorType.AUTHENTICATION) {
+          // Session could not be renewed, clear storage
+          await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
+          apiClient.setSession(null);
         } else {
-          // Token invalid, clear storage
-          await AsyncStorage.multiRemove([TOKEN_KEY, USER_KEY]);
-          apiClient.setToken(null);
+          // Server unreachable, keep the stored session and user
+          setIsAuthenticated(true);
+          setUserId(user.id);
+          setUsername(user.username);
+          setDisplayName(user.display_name);
+          setImageUrl(user.image_url || null);
         }
       }
     } catch (error) {
       console.error('Error checking auth:', error);
-      await AsyncStorage.multiRemove([TOKEN_KEY, USER_KEY]);
-      apiClient.setToken(null);
+      await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
+      apiClient.setSession(null);
     } finally {
       setIsLoading(false);
     }
@@ -84,12 +111,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
 
       if (response.data) {
-        const { token, user } = response.data;
+        const { token, refresh_token, user } = response.data;
         
-        // Store token and user
-        await AsyncStorage.setItem(TOKEN_KEY, token);
-        await AsyncStorage.setItem(USER_KEY, JSON.stringify(user));
-        apiClient.setToken(token);
+        // Store tokens and user
+        await AsyncStorage.multiSet([
+          [TOKEN_KEY, token],
+          [REFRESH_TOKEN_KEY, refresh_token],
+          [USER_KEY, JSON.stringify(user)],
+        ]);
+        apiClient.setSession(token, refresh_token);
 
         setIsAuthenticated(true);
         setUserId(user.id);
@@ -115,12 +145,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
 
       if (response.data) {
-        const { token, user } = response.data;
+        const { token, refresh_token, user } = response.data;
         
-        // Store token and user
-        await AsyncStorage.setItem(TOKEN_KEY, token);
-        await AsyncStorage.setItem(USER_KEY, JSON.stringify(user));
-        apiClient.setToken(token);
+        // Store tokens and user
+        await AsyncStorage.multiSet([
+          [TOKEN_KEY, token],
+          [REFRESH_TOKEN_KEY, refresh_token],
+          [USER_KEY, JSON.stringify(user)],
+        ]);
+        apiClient.setSession(token, refresh_token);
 
         setIsAuthenticated(true);
         setUserId(user.id);
@@ -197,8 +230,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const signOut = async () => {
-    await AsyncStorage.multiRemove([TOKEN_KEY, USER_KEY]);
-    apiClient.setToken(null);
+    // Revoke the refresh token server-side; signing out locally must not wait on it
+    const refreshToken = apiClient.getRefreshToken();
+    if (refreshToken) {
+      apiClient.logout(refreshToken).catch(() => {});
+    }
+
+    await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY]);
+    await offlineCache.clear();
+    await outbox.clear();
+    apiClient.setSession(null);
     setIsAuthenticated(false);
     setUserId(null);
     setUsername(null);
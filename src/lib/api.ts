@@ -1,4 +1,7 @@
-import { parseError, logError, AppError, ErrorType } from '../utils/errors';
+import { parseError, parseFieldErrors, getCodeMessage, logError, getUserMessage, isConnectivityError, AppError, ErrorType } from '../utils/errors';
+import { EndpointName, EndpointRequest, EndpointResponse, SessionTokens, responseValidators } from './contract';
+import { Validator, ValidationError } from './validation';
+import { DrawOptions, GroupUpdate, InviteLinkSettings, PlaceholderMemberInput } from '../types/group';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
 
@@ -8,23 +11,201 @@ export interface ApiResponse<T> {
   appError?: AppError;
 }
 
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ApiClientConfig {
+  timeoutMs: number;
+  retry: RetryOptions;
+}
+
+export interface SessionListener {
+  // Called with the rotated token pair after a successful refresh, so it can be persisted
+  onTokensRefreshed: (tokens: SessionTokens) => void;
+  // Called when the refresh token is rejected and the user has to sign in again
+  onSessionExpired: () => void;
+}
+
+export type ConnectivityListener = (isOnline: boolean) => void;
+
+type RequestOptions<T> = RequestInit & {
+  requireAuth?: boolean;
+  validate?: Validator<T>;
+  timeoutMs?: number;
+  // Retries only apply to idempotent methods; pass false to disable them entirely
+  retry?: Partial<RetryOptions> | false;
+};
+
+type SendOptions<K extends EndpointName> = Omit<RequestOptions<EndpointResponse<K>>, 'body' | 'validate'> & {
+  body?: EndpointRequest<K>;
+};
+
+const DEFAULT_CONFIG: ApiClientConfig = {
+  timeoutMs: 15000,
+  retry: {
+    retries: 2,
+    baseDelayMs: 500,
+    maxDelayMs: 5000,
+  },
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_ERROR_TYPES = [ErrorType.NETWORK, ErrorType.SERVER, ErrorType.TIMEOUT];
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and base * 2^(attempt - 1)
+ */
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
-
-  constructor(baseUrl: string) {
+  private refreshToken: string | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionListener: SessionListener | null = null;
+  private isOnline = true;
+  private connectivityListeners = new Set<ConnectivityListener>();
+  private config: ApiClientConfig;
+
+  constructor(baseUrl: string, config: Partial<ApiClientConfig> = {}) {
     this.baseUrl = baseUrl;
+    this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
-  setToken(token: string | null) {
+  setSession(token: string | null, refreshToken: string | null = null) {
     this.token = token;
+    this.refreshToken = refreshToken;
+  }
+
+  getToken() {
+    return this.token;
+  }
+
+  getRefreshToken() {
+    return this.refreshToken;
+  }
+
+  getBaseUrl() {
+    return this.baseUrl;
+  }
+
+  setSessionListener(listener: SessionListener | null) {
+    this.sessionListener = listener;
+  }
+
+  /**
+   * Subscribes to connectivity changes, as observed by the outcome of requests
+   */
+  addConnectivityListener(listener: ConnectivityListener): () => void {
+    this.connectivityListeners.add(listener);
+    return () => {
+      this.connectivityListeners.delete(listener);
+    };
+  }
+
+  private setOnline(isOnline: boolean) {
+    if (this.isOnline === isOnline) return;
+    this.isOnline = isOnline;
+    this.connectivityListeners.forEach(listener => listener(isOnline));
+  }
+
+  /**
+   * Refreshes the access token. Concurrent callers share a single in-flight refresh.
+   */
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) {
+      return false;
+    }
+
+    const response = await this.send('refreshSession', '/api/auth/refresh', {
+      method: 'POST',
+      requireAuth: false,
+      body: { refresh_token: refreshToken },
+    });
+
+    if (response.data) {
+      this.setSession(response.data.token, response.data.refresh_token);
+      this.sessionListener?.onTokensRefreshed(response.data);
+      return true;
+    }
+
+    // Only a rejected refresh token ends the session; connectivity problems leave it intact
+    const errorType = response.appError?.type;
+    if (
+      errorType === ErrorType.AUTHENTICATION ||
+      errorType === ErrorType.AUTHORIZATION ||
+      errorType === ErrorType.VALIDATION
+    ) {
+      this.setSession(null);
+      this.sessionListener?.onSessionExpired();
+    }
+    return false;
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit & { requireAuth?: boolean } = {}
+    options: RequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    const { retry, ...attemptOptions } = options;
+    const method = (options.method || 'GET').toUpperCase();
+    const retryOptions: RetryOptions = { ...this.config.retry, ...(retry || {}) };
+    const maxAttempts = retry !== false && IDEMPOTENT_METHODS.includes(method)
+      ? retryOptions.retries + 1
+      : 1;
+
+    const { requireAuth = true } = options;
+    let refreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const tokenUsed = this.token;
+      const result = await this.attempt(endpoint, attemptOptions);
+      const errorType = result.appError?.type;
+
+      // Renew an expired access token once and replay the request with the new one
+      if (errorType === ErrorType.AUTHENTICATION && requireAuth && tokenUsed && !refreshed) {
+        refreshed = true;
+        // Another request may already have rotated the token while this one was in flight
+        if (this.token !== tokenUsed || await this.refreshSession()) {
+          attempt--;
+          continue;
+        }
+        return result;
+      }
+
+      if (!errorType || attempt >= maxAttempts || !RETRYABLE_ERROR_TYPES.includes(errorType)) {
+        return result;
+      }
+
+      await sleep(backoffDelay(attempt, retryOptions));
+    }
+  }
+
+  /**
+   * Performs a single fetch, aborting it once the timeout elapses
+   */
+  private async attempt<T>(
+    endpoint: string,
+    options: Omit<RequestOptions<T>, 'retry'>
   ): Promise<ApiResponse<T>> {
-    const { requireAuth = true, ...fetchOptions } = options;
+    const { requireAuth = true, validate, timeoutMs = this.config.timeoutMs, ...fetchOptions } = options;
     const url = `${this.baseUrl}${endpoint}`;
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
@@ -35,11 +216,16 @@ class ApiClient {
       (headers as Record<string, string>)['Authorization'] = `Bearer ${this.token}`;
     }
 
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
     try {
       const response = await fetch(url, {
         ...fetchOptions,
         headers,
+        signal: controller.signal,
       });
+      this.setOnline(true);
 
       // Handle non-JSON responses
       let data: any;
@@ -95,205 +281,426 @@ class ApiClient {
         } else if (response.status === 404) {
           error.type = ErrorType.NOT_FOUND;
           error.userMessage = 'The requested resource was not found.';
-        } else if (response.status === 400) {
+        } else if (response.status === 400 || response.status === 422) {
           error.type = ErrorType.VALIDATION;
           error.userMessage = data.error || 'Please check your input and try again.';
+          error.fieldErrors = parseFieldErrors(data.errors);
+        }
+
+        if (typeof data.code === 'string') {
+          error.code = data.code;
+          error.userMessage = getCodeMessage(data.code) || error.userMessage;
         }
         
         logError(error, `API.request(${endpoint})`);
         return { error: error.userMessage, appError: error };
       }
 
+      if (validate) {
+        try {
+          return { data: validate(data, 'response') };
+        } catch (validationError) {
+          if (!(validationError instanceof ValidationError)) {
+            throw validationError;
+          }
+          const error: AppError = {
+            type: ErrorType.API,
+            message: validationError.message,
+            originalError: { status: response.status, data },
+            statusCode: response.status,
+            userMessage: 'The server returned an unexpected response. Please try again.',
+          };
+          logError(error, `API.request(${endpoint})`);
+          return { error: error.userMessage, appError: error };
+        }
+      }
+
       return { data };
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        this.setOnline(false);
+        const appError: AppError = {
+          type: ErrorType.TIMEOUT,
+          message: `Request timed out after ${timeoutMs}ms`,
+          originalError: error,
+          userMessage: getUserMessage(ErrorType.TIMEOUT, ''),
+        };
+        logError(appError, `API.request(${endpoint})`);
+        return { error: appError.userMessage, appError };
+      }
+
       // Network error or other fetch error
       const appError = parseError(error);
+      if (isConnectivityError(appError)) {
+        this.setOnline(false);
+      }
       logError(appError, `API.request(${endpoint})`);
       return { error: appError.userMessage, appError };
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
+  /**
+   * Sends a request for a contract endpoint, typing the body and validating the response
+   */
+  private send<K extends EndpointName>(
+    name: K,
+    endpoint: string,
+    options: SendOptions<K> = {}
+  ): Promise<ApiResponse<EndpointResponse<K>>> {
+    const { body, ...rest } = options;
+    const validate: Validator<EndpointResponse<K>> = responseValidators[name];
+    return this.request<EndpointResponse<K>>(endpoint, {
+      ...rest,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+      validate,
+    });
+  }
+
   // Auth endpoints
   async register(username: string, password: string, display_name?: string) {
-    return this.request<{ token: string; user: { id: number; username: string; display_name: string; image_url?: string | null } }>(
-      '/api/auth/register',
-      {
-        method: 'POST',
-        body: JSON.stringify({ username, password, display_name }),
-      }
-    );
+    return this.send('register', '/api/auth/register', {
+      method: 'POST',
+      requireAuth: false,
+      body: { username, password, display_name },
+    });
   }
 
   async login(username: string, password: string) {
-    return this.request<{ token: string; user: { id: number; username: string; display_name: string; image_url?: string | null } }>(
-      '/api/auth/login',
-      {
-        method: 'POST',
-        body: JSON.stringify({ username, password }),
-      }
-    );
+    return this.send('login', '/api/auth/login', {
+      method: 'POST',
+      requireAuth: false,
+      body: { username, password },
+    });
+  }
+
+  async logout(refresh_token: string) {
+    return this.send('logout', '/api/auth/logout', {
+      method: 'POST',
+      requireAuth: false,
+      body: { refresh_token },
+    });
   }
 
   async getMe() {
-    return this.request<{ user: { id: number; username: string; display_name: string; image_url?: string | null } }>('/api/auth/me');
+    return this.send('getMe', '/api/auth/me');
   }
 
   async searchUsers(query: string) {
-    return this.request<{ users: { id: number; username: string; display_name: string; image_url?: string | null }[] }>(
-      `/api/auth/search?q=${encodeURIComponent(query)}`
-    );
+    return this.send('searchUsers', `/api/auth/search?q=${encodeURIComponent(query)}`);
   }
 
   async updateDisplayName(display_name: string) {
-    return this.request<{ user: { id: number; username: string; display_name: string; image_url?: string | null } }>(
-      '/api/auth/profile/display-name',
-      {
-        method: 'PUT',
-        body: JSON.stringify({ display_name }),
-      }
-    );
+    return this.send('updateDisplayName', '/api/auth/profile/display-name', {
+      method: 'PUT',
+      body: { display_name },
+    });
   }
 
   async updateProfileImage(image_url?: string) {
-    return this.request<{ user: { id: number; username: string; display_name: string; image_url?: string | null } }>(
-      '/api/auth/profile/image',
-      {
-        method: 'PUT',
-        body: JSON.stringify({ image_url }),
-      }
-    );
+    return this.send('updateProfileImage', '/api/auth/profile/image', {
+      method: 'PUT',
+      body: { image_url },
+    });
   }
 
   async deleteAccount() {
-    return this.request<{ message: string }>('/api/auth/account', {
+    return this.send('deleteAccount', '/api/auth/account', {
       method: 'DELETE',
     });
   }
 
   async registerDeviceToken(device_token: string, platform: string) {
-    return this.request<{ message: string }>(
-      '/api/auth/device-token',
-      {
-        method: 'POST',
-        body: JSON.stringify({ device_token, platform }),
-      }
-    );
+    return this.send('registerDeviceToken', '/api/auth/device-token', {
+      method: 'POST',
+      body: { device_token, platform },
+    });
   }
 
   // Groups endpoints
   async getGroups() {
-    return this.request<{ groups: any[] }>('/api/groups');
+    return this.send('getGroups', '/api/groups');
   }
 
   async getGroup(id: number) {
-    return this.request<{ group: any }>(`/api/groups/${id}`);
+    return this.send('getGroup', `/api/groups/${id}`);
   }
 
-  async createGroup(name: string, description?: string, image_url?: string) {
-    return this.request<{ group: any }>('/api/groups', {
+  async createGroup(name: string, description?: string, image_url?: string, is_managed?: boolean) {
+    return this.send('createGroup', '/api/groups', {
       method: 'POST',
-      body: JSON.stringify({ name, description, image_url }),
+      body: { name, description, image_url, is_managed },
     });
   }
 
-  async updateGroup(id: number, image_url?: string) {
-    return this.request<{ group: any }>(`/api/groups/${id}`, {
+  // Only the given fields are changed, null clears a field
+  async updateGroup(id: number, updates: GroupUpdate) {
+    return this.send('updateGroup', `/api/groups/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ image_url }),
+      body: updates,
     });
   }
 
   async deleteGroup(id: number) {
-    return this.request<{ message: string }>(`/api/groups/${id}`, {
+    return this.send('deleteGroup', `/api/groups/${id}`, {
       method: 'DELETE',
     });
   }
 
   // Invitation endpoints
   async inviteUserToGroup(groupId: number, username: string) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/invite`, {
+    return this.send('inviteUserToGroup', `/api/groups/${groupId}/invite`, {
       method: 'POST',
-      body: JSON.stringify({ username }),
+      body: { username },
+    });
+  }
+
+  async inviteUsersToGroup(groupId: number, usernames: string[]) {
+    return this.send('inviteUsersToGroup', `/api/groups/${groupId}/invite/bulk`, {
+      method: 'POST',
+      body: { usernames },
     });
   }
 
   async getPendingInvitations() {
-    return this.request<{ invitations: any[] }>('/api/groups/invitations/pending');
+    return this.send('getPendingInvitations', '/api/groups/invitations/pending');
   }
 
   async acceptInvitation(invitationId: number) {
-    return this.request<{ message: string }>(`/api/groups/invitations/${invitationId}/accept`, {
+    return this.send('acceptInvitation', `/api/groups/invitations/${invitationId}/accept`, {
       method: 'POST',
     });
   }
 
   async rejectInvitation(invitationId: number) {
-    return this.request<{ message: string }>(`/api/groups/invitations/${invitationId}/reject`, {
+    return this.send('rejectInvitation', `/api/groups/invitations/${invitationId}/reject`, {
       method: 'POST',
     });
   }
 
   async cancelInvitation(groupId: number, invitationId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/invitations/${invitationId}`, {
+    return this.send('cancelInvitation', `/api/groups/${groupId}/invitations/${invitationId}`, {
       method: 'DELETE',
     });
   }
 
   // Invite link endpoints
   async getInviteLink(groupId: number) {
-    return this.request<{ invite_token: string }>(`/api/groups/${groupId}/invite-link`);
+    return this.send('getInviteLink', `/api/groups/${groupId}/invite-link`);
+  }
+
+  // Replaces the token (the old link stops working) and applies the settings to the new one
+  async regenerateInviteLink(groupId: number, settings: InviteLinkSettings) {
+    return this.send('regenerateInviteLink', `/api/groups/${groupId}/invite-link`, {
+      method: 'POST',
+      body: settings,
+    });
+  }
+
+  async updateInviteLink(groupId: number, settings: InviteLinkSettings) {
+    return this.send('updateInviteLink', `/api/groups/${groupId}/invite-link`, {
+      method: 'PATCH',
+      body: settings,
+    });
+  }
+
+  async revokeInviteLink(groupId: number) {
+    return this.send('revokeInviteLink', `/api/groups/${groupId}/invite-link`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Join request endpoints, for invite links that require approval
+  async approveJoinRequest(groupId: number, requestId: number) {
+    return this.send('approveJoinRequest', `/api/groups/${groupId}/join-requests/${requestId}/approve`, {
+      method: 'POST',
+    });
+  }
+
+  async denyJoinRequest(groupId: number, requestId: number) {
+    return this.send('denyJoinRequest', `/api/groups/${groupId}/join-requests/${requestId}/deny`, {
+      method: 'POST',
+    });
   }
 
   async joinGroupByToken(token: string) {
-    return this.request<{ message: string; group_id: number }>(`/api/groups/join/${token}`, {
+    return this.send('joinGroupByToken', `/api/groups/join/${token}`, {
       method: 'POST',
     });
   }
 
   async getGroupByInviteToken(token: string) {
     // Public endpoint, no auth required
-    return this.request<{ group: { id: number; name: string; description?: string; image_url?: string | null } }>(
-      `/api/groups/invite/${token}`,
-      { requireAuth: false }
-    );
+    return this.send('getGroupByInviteToken', `/api/groups/invite/${token}`, {
+      requireAuth: false,
+    });
   }
 
   async leaveGroup(groupId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/leave`, {
+    return this.send('leaveGroup', `/api/groups/${groupId}/leave`, {
+      method: 'POST',
+    });
+  }
+
+  // Placeholder member endpoints
+  async addPlaceholderMember(groupId: number, input: PlaceholderMemberInput) {
+    return this.send('addPlaceholderMember', `/api/groups/${groupId}/placeholders`, {
+      method: 'POST',
+      body: input,
+    });
+  }
+
+  // Returns the placeholder's existing claim token or creates one
+  async getPlaceholderClaimToken(groupId: number, memberId: number) {
+    return this.send('getPlaceholderClaimToken', `/api/groups/${groupId}/placeholders/${memberId}/claim-link`, {
+      method: 'POST',
+    });
+  }
+
+  async getPlaceholderClaim(token: string) {
+    // Public endpoint, no auth required
+    return this.send('getPlaceholderClaim', `/api/placeholders/claim/${token}`, {
+      requireAuth: false,
+    });
+  }
+
+  async claimPlaceholder(token: string) {
+    return this.send('claimPlaceholder', `/api/placeholders/claim/${token}`, {
       method: 'POST',
     });
   }
 
   async removeMember(groupId: number, userId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/members/${userId}`, {
+    return this.send('removeMember', `/api/groups/${groupId}/members/${userId}`, {
       method: 'DELETE',
     });
   }
 
+  async updateMemberRole(groupId: number, userId: number, role: 'admin' | 'member') {
+    return this.send('updateMemberRole', `/api/groups/${groupId}/members/${userId}/role`, {
+      method: 'PUT',
+      body: { role },
+    });
+  }
+
+  // Ownership transfer endpoints: the owner offers ownership, the chosen member accepts or declines
+  async requestOwnershipTransfer(groupId: number, userId: number) {
+    return this.send('requestOwnershipTransfer', `/api/groups/${groupId}/ownership-transfer`, {
+      method: 'POST',
+      body: { user_id: userId },
+    });
+  }
+
+  async cancelOwnershipTransfer(groupId: number) {
+    return this.send('cancelOwnershipTransfer', `/api/groups/${groupId}/ownership-transfer`, {
+      method: 'DELETE',
+    });
+  }
+
+  async acceptOwnershipTransfer(groupId: number) {
+    return this.send('acceptOwnershipTransfer', `/api/groups/${groupId}/ownership-transfer/accept`, {
+      method: 'POST',
+    });
+  }
+
+  async declineOwnershipTransfer(groupId: number) {
+    return this.send('declineOwnershipTransfer', `/api/groups/${groupId}/ownership-transfer/decline`, {
+      method: 'POST',
+    });
+  }
+
   // Assignment endpoints
-  async assignSecretSanta(groupId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/assign`, {
+  async assignSecretSanta(groupId: number, options?: DrawOptions) {
+    return this.send('assignSecretSanta', `/api/groups/${groupId}/assign`, {
       method: 'POST',
+      ...(options && options.avoidPreviousRounds > 0 && {
+        body: { avoid_previous_rounds: options.avoidPreviousRounds, history_mode: options.historyMode },
+      }),
+    });
+  }
+
+  async getDrawHistory(groupId: number) {
+    return this.send('getDrawHistory', `/api/groups/${groupId}/draws`);
+  }
+
+  // Replaces any existing schedule; drawAt is an ISO 8601 timestamp
+  async scheduleDraw(groupId: number, drawAt: string) {
+    return this.send('scheduleDraw', `/api/groups/${groupId}/draw-schedule`, {
+      method: 'PUT',
+      body: { draw_at: drawAt },
+    });
+  }
+
+  async cancelScheduledDraw(groupId: number) {
+    return this.send('cancelScheduledDraw', `/api/groups/${groupId}/draw-schedule`, {
+      method: 'DELETE',
     });
   }
 
   async getAssignment(groupId: number) {
-    return this.request<{ assignment: { receiver_id: number; receiver_username: string; receiver_display_name: string } | null }>(
-      `/api/groups/${groupId}/assignment`
-    );
+    return this.send('getAssignment', `/api/groups/${groupId}/assignment`);
+  }
+
+  // Managed groups only, for the owner
+  async getAllAssignments(groupId: number) {
+    return this.send('getAllAssignments', `/api/groups/${groupId}/assignments`);
+  }
+
+  // The participant's reveal link if it hasn't been opened yet, otherwise null
+  async getRevealLink(groupId: number, memberId: number) {
+    return this.send('getRevealLink', `/api/groups/${groupId}/members/${memberId}/reveal-link`);
+  }
+
+  // Creating a new reveal link invalidates the participant's previous one
+  async createRevealLink(groupId: number, memberId: number) {
+    return this.send('createRevealLink', `/api/groups/${groupId}/members/${memberId}/reveal-link`, {
+      method: 'POST',
+    });
+  }
+
+  async getReveal(token: string) {
+    // Public endpoint, no auth required
+    return this.send('getReveal', `/api/reveal/${token}`, {
+      requireAuth: false,
+    });
+  }
+
+  // Public; a POST so link previews in chat apps don't use up the link
+  async openReveal(token: string) {
+    return this.send('openReveal', `/api/reveal/${token}`, {
+      method: 'POST',
+      requireAuth: false,
+    });
+  }
+
+  // Managed groups only, for the owner: one link per giver of the current draw, the same every time
+  async createSlipLinks(groupId: number) {
+    return this.send('createSlipLinks', `/api/groups/${groupId}/slip-links`, {
+      method: 'POST',
+    });
+  }
+
+  async getSlipGiftIdeas(token: string) {
+    // Public endpoint, no auth required
+    return this.send('getSlipGiftIdeas', `/api/slips/${token}`, {
+      requireAuth: false,
+    });
   }
 
   async deleteAssignments(groupId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/assignments`, {
+    return this.send('deleteAssignments', `/api/groups/${groupId}/assignments`, {
       method: 'DELETE',
     });
   }
 
   // Gift ideas endpoints
-  async createGiftIdea(groupId: number, forUserId: number, idea: string, link?: string) {
-    return this.request<{ gift_idea: any }>(`/api/groups/${groupId}/gift-ideas`, {
+  // The server applies a create only once per idempotency key, so a replayed create can't duplicate the idea
+  async createGiftIdea(groupId: number, forUserId: number, idea: string, link?: string, idempotencyKey?: string) {
+    return this.send('createGiftIdea', `/api/groups/${groupId}/gift-ideas`, {
       method: 'POST',
-      body: JSON.stringify({ for_user_id: forUserId, idea, link }),
+      body: { for_user_id: forUserId, idea, link },
+      ...(idempotencyKey && { headers: { 'Idempotency-Key': idempotencyKey } }),
     });
   }
 
@@ -301,36 +708,90 @@ class ApiClient {
     const url = forUserId
       ? `/api/groups/${groupId}/gift-ideas?for_user_id=${forUserId}`
       : `/api/groups/${groupId}/gift-ideas`;
-    return this.request<{ gift_ideas: any[] }>(url);
+    return this.send('getGiftIdeas', url);
   }
 
   async updateGiftIdea(groupId: number, ideaId: number, idea: string, link?: string) {
-    return this.request<{ gift_idea: any }>(`/api/groups/${groupId}/gift-ideas/${ideaId}`, {
+    return this.send('updateGiftIdea', `/api/groups/${groupId}/gift-ideas/${ideaId}`, {
       method: 'PUT',
-      body: JSON.stringify({ idea, link }),
+      body: { idea, link },
     });
   }
 
   async deleteGiftIdea(groupId: number, ideaId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/gift-ideas/${ideaId}`, {
+    return this.send('deleteGiftIdea', `/api/groups/${groupId}/gift-ideas/${ideaId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async reserveGiftIdea(groupId: number, ideaId: number) {
+    return this.send('reserveGiftIdea', `/api/groups/${groupId}/gift-ideas/${ideaId}/reservation`, {
+      method: 'POST',
+    });
+  }
+
+  async unreserveGiftIdea(groupId: number, ideaId: number) {
+    return this.send('unreserveGiftIdea', `/api/groups/${groupId}/gift-ideas/${ideaId}/reservation`, {
       method: 'DELETE',
     });
   }
 
   // Exclusions endpoints
   async getExclusions(groupId: number) {
-    return this.request<{ exclusions: any[] }>(`/api/groups/${groupId}/exclusions`);
+    return this.send('getExclusions', `/api/groups/${groupId}/exclusions`);
   }
 
   async addExclusion(groupId: number, excludedUserId: number, giverId?: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/exclusions`, {
+    return this.send('addExclusion', `/api/groups/${groupId}/exclusions`, {
       method: 'POST',
-      body: JSON.stringify({ excluded_user_id: excludedUserId, ...(giverId && { giver_id: giverId }) }),
+      body: {
+        excluded_user_id: excludedUserId,
+        ...(giverId && { giver_id: giverId }),
+      },
     });
   }
 
   async removeExclusion(groupId: number, exclusionId: number) {
-    return this.request<{ message: string }>(`/api/groups/${groupId}/exclusions/${exclusionId}`, {
+    return this.send('removeExclusion', `/api/groups/${groupId}/exclusions/${exclusionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Rounds endpoints
+  async createRound(groupId: number, name: string) {
+    return this.send('createRound', `/api/groups/${groupId}/rounds`, {
+      method: 'POST',
+      body: { name },
+    });
+  }
+
+  async closeRound(groupId: number, roundId: number) {
+    return this.send('closeRound', `/api/groups/${groupId}/rounds/${roundId}/close`, {
+      method: 'POST',
+    });
+  }
+
+  async getRound(groupId: number, roundId: number) {
+    return this.send('getRound', `/api/groups/${groupId}/rounds/${roundId}`);
+  }
+
+  // Households endpoints
+  async createHousehold(groupId: number, name: string, memberIds: number[]) {
+    return this.send('createHousehold', `/api/groups/${groupId}/households`, {
+      method: 'POST',
+      body: { name, member_ids: memberIds },
+    });
+  }
+
+  async updateHousehold(groupId: number, householdId: number, name: string, memberIds: number[]) {
+    return this.send('updateHousehold', `/api/groups/${groupId}/households/${householdId}`, {
+      method: 'PUT',
+      body: { name, member_ids: memberIds },
+    });
+  }
+
+  async deleteHousehold(groupId: number, householdId: number) {
+    return this.send('deleteHousehold', `/api/groups/${groupId}/households/${householdId}`, {
       method: 'DELETE',
     });
   }
@@ -0,0 +1,475 @@
+import {
+  Group,
+  GroupMember,
+  GroupOwner,
+  GroupPreview,
+  GroupUpdate,
+  Household,
+  OwnershipTransfer,
+  PlaceholderClaim,
+  PlaceholderMemberInput,
+  Reveal,
+  RevealPreview,
+  Round,
+  RoundDetail,
+  RoundPairing,
+  SlipGiftIdea,
+  SlipGiftIdeas,
+  SlipLink,
+  PendingInvitation,
+  Invitation,
+  BulkInviteResult,
+  InviteLink,
+  InviteLinkSettings,
+  JoinRequest,
+  JoinStatus,
+  Assignment,
+  ArchivedDraw,
+  DrawPairing,
+  DrawSchedule,
+  HistoryMode,
+  GiftIdea,
+  GiftIdeaUser,
+  Exclusion,
+} from '../types/group';
+import { User } from '../types/user';
+import * as v from './validation';
+
+/**
+ * API contract: request and response types for every endpoint used by ApiClient
+ */
+
+export interface MessageResponse {
+  message?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refresh_token: string;
+}
+
+export interface AuthResponse extends SessionTokens {
+  user: User;
+}
+
+export interface ApiEndpoints {
+  // Auth
+  register: { request: { username: string; password: string; display_name?: string }; response: AuthResponse };
+  login: { request: { username: string; password: string }; response: AuthResponse };
+  refreshSession: { request: { refresh_token: string }; response: SessionTokens };
+  logout: { request: { refresh_token: string }; response: MessageResponse };
+  getMe: { request: void; response: { user: User } };
+  searchUsers: { request: void; response: { users: User[] } };
+  updateDisplayName: { request: { display_name: string }; response: { user: User } };
+  updateProfileImage: { request: { image_url?: string }; response: { user: User } };
+  deleteAccount: { request: void; response: MessageResponse };
+  registerDeviceToken: { request: { device_token: string; platform: string }; response: MessageResponse };
+
+  // Groups
+  getGroups: { request: void; response: { groups: Group[] } };
+  getGroup: { request: void; response: { group: Group } };
+  createGroup: {
+    request: { name: string; description?: string; image_url?: string; is_managed?: boolean };
+    response: { group: Group };
+  };
+  updateGroup: { request: GroupUpdate; response: { group: Group } };
+  deleteGroup: { request: void; response: MessageResponse };
+
+  // Invitations
+  inviteUserToGroup: { request: { username: string }; response: MessageResponse };
+  inviteUsersToGroup: { request: { usernames: string[] }; response: { results: BulkInviteResult[] } };
+  getPendingInvitations: { request: void; response: { invitations: Invitation[] } };
+  acceptInvitation: { request: void; response: MessageResponse };
+  rejectInvitation: { request: void; response: MessageResponse };
+  cancelInvitation: { request: void; response: MessageResponse };
+
+  // Invite links
+  getInviteLink: { request: void; response: InviteLink };
+  regenerateInviteLink: { request: InviteLinkSettings; response: InviteLink };
+  updateInviteLink: { request: InviteLinkSettings; response: InviteLink };
+  revokeInviteLink: { request: void; response: MessageResponse };
+  approveJoinRequest: { request: void; response: MessageResponse };
+  denyJoinRequest: { request: void; response: MessageResponse };
+  joinGroupByToken: { request: void; response: MessageResponse & { group_id: number; status?: JoinStatus } };
+  getGroupByInviteToken: { request: void; response: { group: GroupPreview } };
+
+  // Membership
+  leaveGroup: { request: void; response: MessageResponse };
+  removeMember: { request: void; response: MessageResponse };
+  updateMemberRole: { request: { role: 'admin' | 'member' }; response: { member: GroupMember } };
+  requestOwnershipTransfer: { request: { user_id: number }; response: { transfer: OwnershipTransfer } };
+  cancelOwnershipTransfer: { request: void; response: MessageResponse };
+  acceptOwnershipTransfer: { request: void; response: { group: Group } };
+  declineOwnershipTransfer: { request: void; response: MessageResponse };
+
+  // Placeholder members
+  addPlaceholderMember: { request: PlaceholderMemberInput; response: { member: GroupMember } };
+  getPlaceholderClaimToken: { request: void; response: { claim_token: string } };
+  getPlaceholderClaim: { request: void; response: PlaceholderClaim };
+  claimPlaceholder: { request: void; response: MessageResponse & { group_id: number } };
+
+  // Assignments
+  assignSecretSanta: { request: { avoid_previous_rounds?: number; history_mode?: HistoryMode }; response: MessageResponse };
+  getDrawHistory: { request: void; response: { draws: ArchivedDraw[] } };
+  scheduleDraw: { request: { draw_at: string }; response: { draw_schedule: DrawSchedule } };
+  cancelScheduledDraw: { request: void; response: MessageResponse };
+  getAssignment: { request: void; response: { assignment: Assignment | null } };
+  getAllAssignments: { request: void; response: { pairings: RoundPairing[] } };
+  getRevealLink: { request: void; response: { reveal_token: string | null } };
+  createRevealLink: { request: void; response: { reveal_token: string } };
+  getReveal: { request: void; response: RevealPreview };
+  openReveal: { request: void; response: Reveal };
+  createSlipLinks: { request: void; response: { links: SlipLink[] } };
+  getSlipGiftIdeas: { request: void; response: SlipGiftIdeas };
+  deleteAssignments: { request: void; response: MessageResponse };
+
+  // Gift ideas
+  createGiftIdea: { request: { for_user_id: number; idea: string; link?: string }; response: { gift_idea: GiftIdea } };
+  getGiftIdeas: { request: void; response: { gift_ideas: GiftIdea[] } };
+  updateGiftIdea: { request: { idea: string; link?: string }; response: { gift_idea: GiftIdea } };
+  deleteGiftIdea: { request: void; response: MessageResponse };
+  reserveGiftIdea: { request: void; response: { gift_idea: GiftIdea } };
+  unreserveGiftIdea: { request: void; response: { gift_idea: GiftIdea } };
+
+  // Exclusions
+  getExclusions: { request: void; response: { exclusions: Exclusion[] } };
+  addExclusion: { request: { excluded_user_id: number; giver_id?: number }; response: MessageResponse };
+  removeExclusion: { request: void; response: MessageResponse };
+
+  // Rounds
+  createRound: { request: { name: string }; response: { round: Round } };
+  closeRound: { request: void; response: { round: Round } };
+  getRound: { request: void; response: { round: RoundDetail } };
+
+  // Households
+  createHousehold: { request: { name: string; member_ids: number[] }; response: { household: Household } };
+  updateHousehold: { request: { name: string; member_ids: number[] }; response: { household: Household } };
+  deleteHousehold: { request: void; response: MessageResponse };
+}
+
+export type EndpointName = keyof ApiEndpoints;
+export type EndpointRequest<K extends EndpointName> = ApiEndpoints[K]['request'];
+export type EndpointResponse<K extends EndpointName> = ApiEndpoints[K]['response'];
+
+// Entity schemas
+
+const user = v.object<User>({
+  id: v.number,
+  username: v.string,
+  display_name: v.string,
+  image_url: v.maybe(v.string),
+});
+
+const groupMember = v.object<GroupMember>({
+  id: v.number,
+  username: v.string,
+  display_name: v.string,
+  image_url: v.maybe(v.string),
+  joined_at: v.string,
+  role: v.optional(v.literal('owner', 'admin', 'member')),
+  is_placeholder: v.optional(v.boolean),
+  email: v.maybe(v.string),
+  phone: v.maybe(v.string),
+  revealed_at: v.maybe(v.string),
+});
+
+const groupOwner = v.object<GroupOwner>({
+  id: v.number,
+  username: v.string,
+  display_name: v.string,
+  image_url: v.maybe(v.string),
+});
+
+const pendingInvitation = v.object<PendingInvitation>({
+  id: v.number,
+  username: v.string,
+  display_name: v.string,
+  invitation_id: v.number,
+  invited_at: v.string,
+});
+
+const joinRequest = v.object<JoinRequest>({
+  id: v.number,
+  user_id: v.number,
+  username: v.string,
+  display_name: v.string,
+  image_url: v.maybe(v.string),
+  requested_at: v.string,
+});
+
+const household = v.object<Household>({
+  id: v.number,
+  name: v.string,
+  member_ids: v.array(v.number),
+});
+
+const round = v.object<Round>({
+  id: v.number,
+  name: v.string,
+  status: v.literal('open', 'closed'),
+  created_at: v.string,
+  closed_at: v.maybe(v.string),
+});
+
+const drawSchedule = v.object<DrawSchedule>({
+  draw_at: v.string,
+  scheduled_by: v.number,
+  created_at: v.string,
+});
+
+const ownershipTransfer = v.object<OwnershipTransfer>({
+  id: v.number,
+  from_user_id: v.number,
+  to_user_id: v.number,
+  created_at: v.string,
+});
+
+const group = v.object<Group>({
+  id: v.number,
+  name: v.string,
+  description: v.maybe(v.string),
+  image_url: v.maybe(v.string),
+  event_date: v.maybe(v.string),
+  event_time: v.maybe(v.string),
+  location: v.maybe(v.string),
+  budget: v.maybe(v.number),
+  currency: v.maybe(v.string),
+  rules: v.maybe(v.string),
+  created_at: v.string,
+  created_by: v.number,
+  member_count: v.optional(v.number),
+  members: v.optional(v.array(groupMember)),
+  owner: v.optional(groupOwner),
+  pending_invitations: v.optional(v.array(pendingInvitation)),
+  join_requests: v.optional(v.array(joinRequest)),
+  households: v.optional(v.array(household)),
+  rounds: v.optional(v.array(round)),
+  current_round: v.maybe(round),
+  draw_schedule: v.maybe(drawSchedule),
+  pending_transfer: v.maybe(ownershipTransfer),
+  is_managed: v.optional(v.boolean),
+});
+
+const groupPreview = v.object<GroupPreview>({
+  id: v.number,
+  name: v.string,
+  description: v.maybe(v.string),
+  image_url: v.maybe(v.string),
+});
+
+const inviteLink = v.object<InviteLink>({
+  invite_token: v.nullable(v.string),
+  expires_at: v.maybe(v.string),
+  max_uses: v.maybe(v.number),
+  use_count: v.optional(v.number),
+  requires_approval: v.optional(v.boolean),
+  short_code: v.maybe(v.string),
+});
+
+const invitation = v.object<Invitation>({
+  id: v.number,
+  group_id: v.number,
+  inviter_id: v.number,
+  created_at: v.string,
+  group_name: v.string,
+  group_description: v.maybe(v.string),
+  inviter_username: v.string,
+  inviter_display_name: v.string,
+});
+
+const bulkInviteResult = v.object<BulkInviteResult>({
+  username: v.string,
+  invited: v.boolean,
+  error: v.maybe(v.string),
+});
+
+const assignment = v.object<Assignment>({
+  receiver_id: v.number,
+  receiver_username: v.string,
+  receiver_display_name: v.string,
+  receiver_image_url: v.maybe(v.string),
+});
+
+const drawPairing = v.object<DrawPairing>({
+  giver_id: v.number,
+  receiver_id: v.number,
+});
+
+const archivedDraw = v.object<ArchivedDraw>({
+  id: v.number,
+  round_id: v.maybe(v.number),
+  drawn_at: v.string,
+  pairings: v.array(drawPairing),
+});
+
+const giftIdeaUser = v.object<GiftIdeaUser>({
+  id: v.number,
+  username: v.string,
+  display_name: v.string,
+});
+
+const giftIdea = v.object<GiftIdea>({
+  id: v.number,
+  group_id: v.number,
+  for_user_id: v.number,
+  created_by_id: v.number,
+  idea: v.string,
+  link: v.maybe(v.string),
+  created_at: v.string,
+  updated_at: v.string,
+  created_by: giftIdeaUser,
+  for_user: giftIdeaUser,
+  is_reserved: v.optional(v.boolean),
+  reserved_by_me: v.optional(v.boolean),
+});
+
+const exclusion = v.object<Exclusion>({
+  id: v.number,
+  giver_id: v.number,
+  excluded_user_id: v.number,
+  giver_username: v.string,
+  giver_display_name: v.string,
+  excluded_username: v.string,
+  excluded_display_name: v.string,
+});
+
+const roundPairing = v.object<RoundPairing>({
+  giver_id: v.number,
+  giver_display_name: v.string,
+  receiver_id: v.number,
+  receiver_display_name: v.string,
+});
+
+const roundDetail = v.object<RoundDetail>({
+  id: v.number,
+  name: v.string,
+  status: v.literal('open', 'closed'),
+  created_at: v.string,
+  closed_at: v.maybe(v.string),
+  members: v.array(groupMember),
+  exclusions: v.array(exclusion),
+  gift_ideas: v.array(giftIdea),
+});
+
+const slipLink = v.object<SlipLink>({
+  giver_id: v.number,
+  token: v.string,
+});
+
+const slipGiftIdea = v.object<SlipGiftIdea>({
+  id: v.number,
+  idea: v.string,
+  link: v.maybe(v.string),
+});
+
+const message = v.object<MessageResponse>({
+  message: v.optional(v.string),
+});
+
+const sessionTokens = v.object<SessionTokens>({
+  token: v.string,
+  refresh_token: v.string,
+});
+
+const auth = v.object<AuthResponse>({
+  token: v.string,
+  refresh_token: v.string,
+  user,
+});
+
+// Response schemas, one per endpoint
+
+export const responseValidators: { [K in EndpointName]: v.Validator<EndpointResponse<K>> } = {
+  register: auth,
+  login: auth,
+  refreshSession: sessionTokens,
+  logout: message,
+  getMe: v.object({ user }),
+  searchUsers: v.object({ users: v.array(user) }),
+  updateDisplayName: v.object({ user }),
+  updateProfileImage: v.object({ user }),
+  deleteAccount: message,
+  registerDeviceToken: message,
+
+  getGroups: v.object({ groups: v.array(group) }),
+  getGroup: v.object({ group }),
+  createGroup: v.object({ group }),
+  updateGroup: v.object({ group }),
+  deleteGroup: message,
+
+  inviteUserToGroup: message,
+  inviteUsersToGroup: v.object({ results: v.array(bulkInviteResult) }),
+  getPendingInvitations: v.object({ invitations: v.array(invitation) }),
+  acceptInvitation: message,
+  rejectInvitation: message,
+  cancelInvitation: message,
+
+  getInviteLink: inviteLink,
+  regenerateInviteLink: inviteLink,
+  updateInviteLink: inviteLink,
+  revokeInviteLink: message,
+  approveJoinRequest: message,
+  denyJoinRequest: message,
+  joinGroupByToken: v.object({
+    message: v.optional(v.string),
+    group_id: v.number,
+    status: v.optional(v.literal<JoinStatus>('joined', 'pending')),
+  }),
+  getGroupByInviteToken: v.object({ group: groupPreview }),
+
+  leaveGroup: message,
+  removeMember: message,
+  updateMemberRole: v.object({ member: groupMember }),
+  requestOwnershipTransfer: v.object({ transfer: ownershipTransfer }),
+  cancelOwnershipTransfer: message,
+  acceptOwnershipTransfer: v.object({ group }),
+  declineOwnershipTransfer: message,
+
+  addPlaceholderMember: v.object({ member: groupMember }),
+  getPlaceholderClaimToken: v.object({ claim_token: v.string }),
+  getPlaceholderClaim: v.object<PlaceholderClaim>({ group: groupPreview, display_name: v.string }),
+  claimPlaceholder: v.object({ message: v.optional(v.string), group_id: v.number }),
+
+  assignSecretSanta: message,
+  getDrawHistory: v.object({ draws: v.array(archivedDraw) }),
+  scheduleDraw: v.object({ draw_schedule: drawSchedule }),
+  cancelScheduledDraw: message,
+  getAssignment: v.object({ assignment: v.nullable(assignment) }),
+  getAllAssignments: v.object({ pairings: v.array(roundPairing) }),
+  getRevealLink: v.object({ reveal_token: v.nullable(v.string) }),
+  createRevealLink: v.object({ reveal_token: v.string }),
+  getReveal: v.object<RevealPreview>({
+    group: groupPreview,
+    giver_display_name: v.string,
+    event_date: v.maybe(v.string),
+    budget: v.maybe(v.number),
+    currency: v.maybe(v.string),
+  }),
+  openReveal: v.object<Reveal>({ receiver_display_name: v.string }),
+  createSlipLinks: v.object({ links: v.array(slipLink) }),
+  getSlipGiftIdeas: v.object<SlipGiftIdeas>({
+    group: groupPreview,
+    receiver_display_name: v.string,
+    gift_ideas: v.array(slipGiftIdea),
+  }),
+  deleteAssignments: message,
+
+  createGiftIdea: v.object({ gift_idea: giftIdea }),
+  getGiftIdeas: v.object({ gift_ideas: v.array(giftIdea) }),
+  updateGiftIdea: v.object({ gift_idea: giftIdea }),
+  deleteGiftIdea: message,
+  reserveGiftIdea: v.object({ gift_idea: giftIdea }),
+  unreserveGiftIdea: v.object({ gift_idea: giftIdea }),
+
+  getExclusions: v.object({ exclusions: v.array(exclusion) }),
+  addExclusion: message,
+  removeExclusion: message,
+
+  createRound: v.object({ round }),
+  closeRound: v.object({ round }),
+  getRound: v.object({ round: roundDetail }),
+
+  createHousehold: v.object({ household }),
+  updateHousehold: v.object({ household }),
+  deleteHousehold: message,
+};
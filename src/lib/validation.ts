@@ -0,0 +1,96 @@
+/**
+ * Minimal runtime validators for API payloads
+ */
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class ValidationError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`Expected ${expected} at ${path}, got ${describe(value)}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new ValidationError(path, 'string', value);
+  }
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new ValidationError(path, 'number', value);
+  }
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(path, 'boolean', value);
+  }
+  return value;
+};
+
+export function literal<T extends string>(...values: T[]): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new ValidationError(path, values.map(v => `'${v}'`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : validator(value, path));
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => (value === null ? null : validator(value, path));
+}
+
+/**
+ * Accepts a missing, null or valid value (typical for `field?: T | null`)
+ */
+export function maybe<T>(validator: Validator<T>): Validator<T | null | undefined> {
+  return (value, path) => (value === undefined || value === null ? (value as null | undefined) : validator(value, path));
+}
+
+export function array<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new ValidationError(path, 'array', value);
+    }
+    return value.map((item, index) => validator(item, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Validates every declared field of an object. Unknown fields are kept as-is
+ * so newer server versions don't break older clients.
+ */
+export function object<T extends object>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, 'object', value);
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...record };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldValue = shape[key](record[key], `${path}.${key}`);
+      if (fieldValue !== undefined) {
+        result[key] = fieldValue;
+      }
+    }
+    return result as T;
+  };
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -21,13 +21,90 @@ import {
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
 import { groupService, GroupServiceError } from '../services/groupService';
-import { Group, Assignment, GiftIdea, Exclusion } from '../types/group';
+import {
+  Group,
+  GroupMember,
+  Assignment,
+  GiftIdea,
+  Exclusion,
+  Household,
+  InviteLink,
+  InviteLinkSettings,
+  JoinRequest,
+  ArchivedDraw,
+  DrawOptions,
+  GroupUpdate,
+  HistoryMode,
+  Round,
+  RoundDetail,
+  RoundPairing,
+} from '../types/group';
 import { useAuth } from '../context/AuthContext';
 import { apiClient } from '../lib/api';
 import { colors, spacing, typography, commonStyles } from '../styles/theme';
-import { getErrorMessage } from '../utils/errors';
-import { confirmDestructive } from '../utils/confirm';
+import { ErrorCode, getErrorMessage, isConnectivityError } from '../utils/errors';
+import { confirm, confirmDestructive } from '../utils/confirm';
+import {
+  GROUP_NAME_MAX_LENGTH,
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  GROUP_LOCATION_MAX_LENGTH,
+  GROUP_RULES_MAX_LENGTH,
+  CURRENCIES,
+  INVITE_LINK_EXPIRY_OPTIONS,
+  INVITE_LINK_MAX_USES_OPTIONS,
+  BULK_INVITE_MAX_USERNAMES,
+  PLACEHOLDER_NAME_MAX_LENGTH,
+} from '../utils/constants';
+import {
+  BulkInviteRow,
+  BulkInviteStatus,
+  BULK_INVITE_STATUS_LABELS,
+  parseUsernameList,
+  classifyUsernames,
+  bulkInviteSummary,
+} from '../utils/bulkInvite';
+import {
+  daysUntil,
+  formatDaysUntil,
+  formatEventDate,
+  formatBudget,
+  parseBudget,
+  hasEventDetails,
+  parseLocalDateTime,
+  toDateInput,
+  toTimeInput,
+} from '../utils/event';
+import { buildGroupCalendar, calendarFileName } from '../utils/ical';
+import { buildDrawSlips } from '../utils/slips';
+import {
+  getInviteLinks,
+  getClaimLinks,
+  getRevealLink,
+  getSlipLink,
+  getGroupLink,
+  formatInviteCode,
+} from '../utils/links';
+import { getRole, hasPermission, canRemoveMember, getParticipants, GroupPermission } from '../utils/permissions';
+import OfflineBanner from '../components/OfflineBanner';
+import QrCode from '../components/QrCode';
+import Countdown from '../components/Countdown';
+import { checkDrawFeasibility, previousPairings, DrawConstraint } from '../utils/drawFeasibility';
+import { householdExclusions, findHousehold } from '../utils/households';
+import { realtime, realtimeChannels, RealtimeEvent } from '../services/realtime';
+import {
+  outbox,
+  OutboxEntry,
+  OutboxMutation,
+  OptimisticGiftIdea,
+  OptimisticExclusion,
+  applyPendingGiftIdeas,
+  applyPendingExclusions,
+  describeMutation,
+  mayHaveBeenApplied,
+} from '../services/outbox';
 
 interface GroupDetailScreenProps {
   groupId: string;
@@ -45,25 +122,51 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [inviteModalVisible, setInviteModalVisible] = useState(false);
-  const [inviteLinks, setInviteLinks] = useState<{ native: string; web: string } | null>(null);
+  const [inviteLink, setInviteLink] = useState<InviteLink | null>(null);
   const [loadingInviteLink, setLoadingInviteLink] = useState(false);
+  const [updatingInviteLink, setUpdatingInviteLink] = useState(false);
+  const [showQrCode, setShowQrCode] = useState(false);
   const [detailsModalVisible, setDetailsModalVisible] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchUser[]>([]);
   const [searching, setSearching] = useState(false);
   const [inviting, setInviting] = useState(false);
+  const [bulkInviteText, setBulkInviteText] = useState('');
+  const [bulkInviteRows, setBulkInviteRows] = useState<BulkInviteRow[] | null>(null);
+  const [checkingBulkInvite, setCheckingBulkInvite] = useState(false);
+  const [sendingBulkInvite, setSendingBulkInvite] = useState(false);
+  const [placeholderName, setPlaceholderName] = useState('');
+  const [placeholderEmail, setPlaceholderEmail] = useState('');
+  const [placeholderPhone, setPlaceholderPhone] = useState('');
+  const [placeholderFieldErrors, setPlaceholderFieldErrors] = useState<Record<string, string>>({});
+  const [addingPlaceholder, setAddingPlaceholder] = useState(false);
   const [assignment, setAssignment] = useState<Assignment | null>(null);
+  // Every pairing of a managed group, only loaded for its owner
+  const [managedPairings, setManagedPairings] = useState<RoundPairing[]>([]);
+  const [showManagedPairings, setShowManagedPairings] = useState(false);
+  const [sharingRevealFor, setSharingRevealFor] = useState<number | null>(null);
+  const [printingSlips, setPrintingSlips] = useState(false);
   const [assigning, setAssigning] = useState(false);
   const [deletingAssignments, setDeletingAssignments] = useState(false);
   const [editingImage, setEditingImage] = useState<string | null>(null);
-  const [updatingImage, setUpdatingImage] = useState(false);
+  const [editingName, setEditingName] = useState('');
+  const [editingDescription, setEditingDescription] = useState('');
+  const [editingEventDate, setEditingEventDate] = useState('');
+  const [editingEventTime, setEditingEventTime] = useState('');
+  const [editingLocation, setEditingLocation] = useState('');
+  const [editingBudget, setEditingBudget] = useState('');
+  const [editingCurrency, setEditingCurrency] = useState(CURRENCIES[0]);
+  const [editingRules, setEditingRules] = useState('');
+  const [detailsFieldErrors, setDetailsFieldErrors] = useState<Record<string, string>>({});
+  const [savingDetails, setSavingDetails] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [giftIdeas, setGiftIdeas] = useState<GiftIdea[]>([]);
   const [giftIdeaModalVisible, setGiftIdeaModalVisible] = useState(false);
   const [assignedPersonGiftIdeasModalVisible, setAssignedPersonGiftIdeasModalVisible] = useState(false);
   const [assignedPersonGiftIdeas, setAssignedPersonGiftIdeas] = useState<GiftIdea[]>([]);
   const [loadingAssignedPersonGiftIdeas, setLoadingAssignedPersonGiftIdeas] = useState(false);
-  const [editingGiftIdea, setEditingGiftIdea] = useState<GiftIdea | null>(null);
+  const [reservingGiftIdeaId, setReservingGiftIdeaId] = useState<number | null>(null);
+  const [editingGiftIdea, setEditingGiftIdea] = useState<OptimisticGiftIdea | null>(null);
   const [giftIdeaText, setGiftIdeaText] = useState('');
   const [giftIdeaLink, setGiftIdeaLink] = useState('');
   const [selectedForUserId, setSelectedForUserId] = useState<number | null>(null);
@@ -74,36 +177,106 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
   const [exclusionModalVisible, setExclusionModalVisible] = useState(false);
   const [selectedMember1, setSelectedMember1] = useState<{ id: number; name: string } | null>(null);
   const [selectedMember2, setSelectedMember2] = useState<{ id: number; name: string } | null>(null);
+  // 'forward' excludes member 1 from drawing member 2, 'backward' the other way around
+  const [exclusionDirection, setExclusionDirection] = useState<'mutual' | 'forward' | 'backward'>('mutual');
+  // Mutual pair (by its first exclusion's id) for which the direction to keep is being chosen
+  const [choosingOneWayFor, setChoosingOneWayFor] = useState<number | null>(null);
+  const [householdModalVisible, setHouseholdModalVisible] = useState(false);
+  const [editingHousehold, setEditingHousehold] = useState<Household | null>(null);
+  const [householdName, setHouseholdName] = useState('');
+  const [householdMemberIds, setHouseholdMemberIds] = useState<number[]>([]);
+  const [savingHousehold, setSavingHousehold] = useState(false);
+  const [assignModalVisible, setAssignModalVisible] = useState(false);
+  const [drawHistory, setDrawHistory] = useState<ArchivedDraw[]>([]);
+  const [avoidPreviousRounds, setAvoidPreviousRounds] = useState(0);
+  const [historyMode, setHistoryMode] = useState<HistoryMode>('hard');
+  const [newRoundModalVisible, setNewRoundModalVisible] = useState(false);
+  const [newRoundName, setNewRoundName] = useState('');
+  const [savingRound, setSavingRound] = useState(false);
+  const [viewingRound, setViewingRound] = useState<RoundDetail | null>(null);
+  const [viewingRoundDraw, setViewingRoundDraw] = useState<ArchivedDraw | null>(null);
+  const [loadingRoundId, setLoadingRoundId] = useState<number | null>(null);
+  const [scheduleModalVisible, setScheduleModalVisible] = useState(false);
+  const [scheduleDate, setScheduleDate] = useState('');
+  const [scheduleTime, setScheduleTime] = useState('');
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [reviewingJoinRequestId, setReviewingJoinRequestId] = useState<number | null>(null);
+  const [respondingToTransfer, setRespondingToTransfer] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<OutboxEntry[]>([]);
   const { userId } = useAuth();
 
+  // Server data with writes that are still waiting in the outbox applied on top
+  const displayedGiftIdeas: OptimisticGiftIdea[] = group && userId
+    ? applyPendingGiftIdeas(giftIdeas, pendingChanges, group, userId)
+    : giftIdeas;
+  const displayedExclusions: OptimisticExclusion[] = group
+    ? applyPendingExclusions(exclusions, pendingChanges, group)
+    : exclusions;
+
+  // Whether a draw is still possible with the current exclusions and households
+  const drawMembers = (group ? getParticipants(group) : []).map(m => ({ id: m.id, name: m.display_name || m.username }));
+  const drawConstraints: DrawConstraint[] = [
+    ...displayedExclusions,
+    ...householdExclusions(group?.households || [], drawMembers.map(m => m.id)),
+  ];
+  const drawFeasibility = checkDrawFeasibility(drawMembers, drawConstraints);
+
+  // Show the last known group data from the offline cache, returns whether there was any
+  const loadCachedGroup = useCallback(async () => {
+    const cachedGroup = await groupService.getCachedGroup(groupId);
+    if (!cachedGroup) {
+      return false;
+    }
+    setGroup(cachedGroup.data);
+    setLastUpdated(cachedGroup.updatedAt);
+
+    const cachedAssignment = await groupService.getCachedAssignment(groupId);
+    if (cachedAssignment) {
+      setAssignment(cachedAssignment.data);
+    }
+    const cachedIdeas = await groupService.getCachedGiftIdeas(groupId);
+    if (cachedIdeas) {
+      setGiftIdeas(cachedIdeas.data.filter(idea => idea.created_by_id === userId));
+    }
+    return true;
+  }, [groupId, userId]);
+
   const loadGroup = useCallback(async (showLoading = true) => {
     if (showLoading) {
     setLoading(true);
     }
     try {
-      const groupData = await groupService.getGroupById(groupId);
+      const groupResult = await groupService.getGroupById(groupId);
+      const groupData = groupResult.data;
       console.log('Group data loaded:', groupData);
       console.log('Pending invitations:', groupData?.pending_invitations);
       setGroup(groupData);
+      setIsOffline(groupResult.isStale);
+      setLastUpdated(groupResult.updatedAt);
       
           // Load assignment and gift ideas if user is a member
       if (groupData && userId) {
         const isOwner = userId === groupData.created_by;
         const isMember = isOwner || groupData.members?.some(m => m.id === userId);
         if (isMember) {
-          const assignmentData = await groupService.getAssignment(groupId);
-          setAssignment(assignmentData);
+          const assignmentResult = await groupService.getAssignment(groupId);
+          setAssignment(assignmentResult.data);
+
+          if (groupData.is_managed && isOwner) {
+            const pairingsResult = await groupService.getAllAssignments(groupId);
+            setManagedPairings(pairingsResult.data);
+          }
           
           // Load only gift ideas created by the current user
-          const ideas = await groupService.getGiftIdeas(groupId);
-          const myIdeas = ideas.filter(idea => idea.created_by_id === userId);
+          const ideasResult = await groupService.getGiftIdeas(groupId);
+          const myIdeas = ideasResult.data.filter(idea => idea.created_by_id === userId);
           setGiftIdeas(myIdeas);
           
           // Load exclusions
-          const exclusionsResponse = await apiClient.getExclusions(parseInt(groupId));
-          if (exclusionsResponse.data) {
-            setExclusions(exclusionsResponse.data.exclusions);
-          }
+          const exclusionsData = await groupService.getExclusions(groupId);
+          setExclusions(exclusionsData);
         }
       }
     } catch (error: any) {
@@ -122,8 +295,132 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
   }, [groupId, userId, onBack]);
 
   useEffect(() => {
-    loadGroup();
-  }, [loadGroup]);
+    const loadInitialGroup = async () => {
+      // Render cached data immediately and revalidate without a blocking spinner
+      const hasCachedGroup = await loadCachedGroup();
+      if (hasCachedGroup) {
+        setLoading(false);
+      }
+      await loadGroup(!hasCachedGroup);
+    };
+
+    loadInitialGroup();
+  }, [loadGroup, loadCachedGroup]);
+
+  useEffect(() => {
+    outbox.getEntries(groupId).then(setPendingChanges);
+
+    return outbox.subscribe(({ entries, synced }) => {
+      setPendingChanges(entries.filter(entry => entry.groupId === groupId));
+      // Replace optimistic data with the server's once queued writes went through
+      if (synced.some(entry => entry.groupId === groupId)) {
+        loadGroup(false);
+      }
+    });
+  }, [groupId, loadGroup]);
+
+  // Apply changes made by other members as they happen instead of waiting for pull-to-refresh
+  const handleRealtimeEvent = useRef<(event: RealtimeEvent) => void>(() => {});
+  // Keeps the group on screen when reloading it fails, e.g. on a brief server error
+  const reloadGroup = async () => {
+    const groupResult = await groupService.getGroupById(groupId);
+    if (!groupResult.data) return;
+    setGroup(groupResult.data);
+    setIsOffline(groupResult.isStale);
+    setLastUpdated(groupResult.updatedAt);
+  };
+  handleRealtimeEvent.current = async (event: RealtimeEvent) => {
+    try {
+      switch (event.type) {
+        case 'group_deleted':
+          if (event.actor_id !== userId) {
+            Alert.alert('Group Deleted', 'This group has been deleted by its owner.');
+            onBack();
+          }
+          return;
+        case 'member_removed':
+          if (event.user_id === userId) {
+            Alert.alert('Removed from Group', 'You have been removed from this group.');
+            onBack();
+            return;
+          }
+          await reloadGroup();
+          return;
+        case 'group_updated':
+        case 'member_joined':
+        case 'member_left':
+        case 'member_role_changed':
+        case 'placeholder_claimed':
+        case 'ownership_transfer_requested':
+        case 'ownership_transfer_cancelled':
+        case 'ownership_transferred':
+        case 'invitation_created':
+        case 'invitation_accepted':
+        case 'invitation_rejected':
+        case 'invitation_cancelled':
+        case 'join_requested':
+        case 'join_request_approved':
+        case 'join_request_denied':
+        case 'draw_scheduled':
+        case 'draw_schedule_cancelled':
+        case 'reveal_opened':
+          await reloadGroup();
+          return;
+        case 'exclusion_added':
+        case 'exclusion_removed':
+          setExclusions(await groupService.getExclusions(groupId));
+          return;
+        case 'assignments_created':
+        case 'assignments_deleted':
+          setAssignment((await groupService.getAssignment(groupId)).data);
+          if (group?.is_managed && userId === group.created_by) {
+            setManagedPairings((await groupService.getAllAssignments(groupId)).data);
+          }
+          // A scheduled draw also expired the pending invitations and cleared the schedule
+          if (event.type === 'assignments_created') {
+            await reloadGroup();
+          }
+          return;
+        case 'gift_idea_created':
+        case 'gift_idea_updated':
+        case 'gift_idea_deleted':
+          // Only the user's own ideas are shown, which may have changed on another device
+          if (event.actor_id === userId) {
+            const ideasResult = await groupService.getGiftIdeas(groupId);
+            setGiftIdeas(ideasResult.data.filter(idea => idea.created_by_id === userId));
+          }
+          return;
+        case 'gift_idea_reserved':
+        case 'gift_idea_unreserved':
+          if (assignedPersonGiftIdeasModalVisible && assignment) {
+            const ideasResult = await groupService.getGiftIdeas(groupId, assignment.receiver_id);
+            setAssignedPersonGiftIdeas(ideasResult.data);
+          }
+          return;
+        // A new round starts without assignments and gift ideas
+        case 'round_created':
+        case 'round_closed':
+        case 'resync':
+          await loadGroup(false);
+          return;
+      }
+    } catch (error) {
+      console.error('Error applying realtime event:', error);
+    }
+  };
+
+  useEffect(() => {
+    return realtime.subscribe(realtimeChannels.group(groupId), event => handleRealtimeEvent.current(event));
+  }, [groupId]);
+
+  // Reservations come on the user's own channel, as the group channel also reaches whoever the idea is for
+  useEffect(() => {
+    return realtime.subscribe(realtimeChannels.user(), event => {
+      if ((event.type === 'gift_idea_reserved' || event.type === 'gift_idea_unreserved') && String(event.group_id) === groupId) {
+        handleRealtimeEvent.current(event);
+      }
+    });
+  }, [groupId]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -165,36 +462,107 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
   };
 
-  const handleSaveImage = async () => {
+  const fillDetailsForm = (source: Group) => {
+    setEditingImage(source.image_url || null);
+    setEditingName(source.name);
+    setEditingDescription(source.description || '');
+    setEditingEventDate(source.event_date || '');
+    setEditingEventTime(source.event_time || '');
+    setEditingLocation(source.location || '');
+    setEditingBudget(source.budget != null ? String(source.budget) : '');
+    setEditingCurrency(source.currency || CURRENCIES[0]);
+    setEditingRules(source.rules || '');
+  };
+
+  const openDetails = () => {
     if (!group) return;
+    fillDetailsForm(group);
+    setDetailsFieldErrors({});
+    setDetailsModalVisible(true);
+  };
+
+  const closeDetails = () => {
+    setEditingImage(null);
+    setDetailsFieldErrors({});
+    setDetailsModalVisible(false);
+  };
+
+  // The edited fields that differ from the group, except the image which is read from disk on save.
+  // Only these are sent, so concurrent edits of other fields aren't overwritten.
+  const changedDetails = (current: Group): GroupUpdate => {
+    const updates: GroupUpdate = {};
+    if (editingName.trim() !== current.name) {
+      updates.name = editingName;
+    }
+    if (editingDescription.trim() !== (current.description || '')) {
+      updates.description = editingDescription.trim() || null;
+    }
+    if (editingEventDate.trim() !== (current.event_date || '')) {
+      updates.event_date = editingEventDate.trim() || null;
+    }
+    if (editingEventTime.trim() !== (current.event_time || '')) {
+      updates.event_time = editingEventTime.trim() || null;
+    }
+    if (editingLocation.trim() !== (current.location || '')) {
+      updates.location = editingLocation.trim() || null;
+    }
+    // An amount that can't be parsed is sent on as NaN so validation reports it
+    const budget = editingBudget.trim() ? parseBudget(editingBudget) ?? NaN : null;
+    if (budget !== (current.budget ?? null)) {
+      updates.budget = budget;
+    }
+    const currency = budget !== null ? editingCurrency : null;
+    if (currency !== (current.currency ?? null)) {
+      updates.currency = currency;
+    }
+    if (editingRules.trim() !== (current.rules || '')) {
+      updates.rules = editingRules.trim() || null;
+    }
+    return updates;
+  };
 
-    setUpdatingImage(true);
+  const imageChanged = !!group && editingImage !== (group.image_url || null);
+  const detailsChanged = !!group && (imageChanged || Object.keys(changedDetails(group)).length > 0);
+
+  const handleSaveDetails = async () => {
+    if (!group || !detailsChanged) return;
+
+    setSavingDetails(true);
+    setDetailsFieldErrors({});
     try {
-      let imageBase64: string | undefined;
-      if (editingImage) {
-        try {
-          const base64 = await FileSystem.readAsStringAsync(editingImage, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-          imageBase64 = `data:image/jpeg;base64,${base64}`;
-        } catch (error) {
-          console.error('Error converting image to base64:', error);
-          Alert.alert('Error', 'Failed to process image. Please try again.');
-          setUpdatingImage(false);
-          return;
+      const updates = changedDetails(group);
+      if (imageChanged) {
+        if (editingImage) {
+          try {
+            const base64 = await FileSystem.readAsStringAsync(editingImage, {
+              encoding: FileSystem.EncodingType.Base64,
+            });
+            updates.image_url = `data:image/jpeg;base64,${base64}`;
+          } catch (error) {
+            console.error('Error converting image to base64:', error);
+            Alert.alert('Error', 'Failed to process image. Please try again.');
+            return;
+          }
+        } else {
+          updates.image_url = null;
         }
       }
 
-      const updatedGroup = await groupService.updateGroup(groupId, imageBase64);
+      const updatedGroup = await groupService.updateGroup(groupId, updates);
       setGroup(updatedGroup);
-      setEditingImage(null);
+      fillDetailsForm(updatedGroup);
     } catch (error: any) {
+      if (error instanceof GroupServiceError && error.appError.fieldErrors) {
+        // Shown next to the fields they belong to
+        setDetailsFieldErrors(error.appError.fieldErrors);
+        return;
+      }
       const errorMessage = error instanceof GroupServiceError 
         ? error.appError.userMessage 
         : getErrorMessage(error);
       Alert.alert('Error', errorMessage);
     } finally {
-      setUpdatingImage(false);
+      setSavingDetails(false);
     }
   };
 
@@ -299,6 +667,8 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
       setInviteModalVisible(false);
       setSearchQuery('');
       setSearchResults([]);
+      resetBulkInvite();
+      resetPlaceholderForm();
       // Delay loadGroup to avoid race condition with modal dismissal
       InteractionManager.runAfterInteractions(() => {
         loadGroup();
@@ -313,25 +683,93 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
   };
 
+  const resetBulkInvite = () => {
+    setBulkInviteText('');
+    setBulkInviteRows(null);
+  };
+
+  const handleCheckBulkInvite = async () => {
+    if (!group) return;
+    const usernames = parseUsernameList(bulkInviteText);
+    if (usernames.length === 0) {
+      Alert.alert('No Usernames', 'Paste usernames, one per line or separated by commas.');
+      return;
+    }
+    if (usernames.length > BULK_INVITE_MAX_USERNAMES) {
+      Alert.alert('Too Many Usernames', `You can invite up to ${BULK_INVITE_MAX_USERNAMES} people at once.`);
+      return;
+    }
+
+    setCheckingBulkInvite(true);
+    try {
+      const users = await groupService.findUsersByUsername(usernames);
+      setBulkInviteRows(classifyUsernames(usernames, users, group, userId));
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setCheckingBulkInvite(false);
+    }
+  };
+
+  // Web only, native apps paste the list instead
+  const handleImportUsernameFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.txt,text/csv,text/plain';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      const text = await file.text();
+      setBulkInviteText(current => (current.trim() ? `${current.trim()}\n${text}` : text));
+      setBulkInviteRows(null);
+    };
+    input.click();
+  };
+
+  const bulkInviteStatusStyle = (status: BulkInviteStatus) => {
+    if (status === 'invited') return styles.bulkInviteStatusSuccess;
+    if (status === 'failed' || status === 'unknown') return styles.bulkInviteStatusError;
+    if (status === 'ready') return styles.bulkInviteStatusReady;
+    return null;
+  };
+
+  const handleSendBulkInvite = async () => {
+    const ready = (bulkInviteRows || []).filter(row => row.status === 'ready' && row.user);
+    if (ready.length === 0) return;
+
+    setSendingBulkInvite(true);
+    try {
+      const results = await groupService.inviteUsers(groupId, ready.map(row => row.user!.username));
+      const byUsername = new Map(results.map(result => [result.username.toLowerCase(), result]));
+      setBulkInviteRows(rows => (rows || []).map((row) => {
+        if (row.status !== 'ready' || !row.user) return row;
+        const result = byUsername.get(row.user.username.toLowerCase());
+        return result?.invited
+          ? { ...row, status: 'invited' }
+          : { ...row, status: 'failed', error: result?.error };
+      }));
+      await loadGroup();
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSendingBulkInvite(false);
+    }
+  };
+
+  // Native and web links for the current token, if the invite link is on
+  const inviteLinks = inviteLink?.invite_token ? getInviteLinks(inviteLink.invite_token) : null;
+
   const handleGetInviteLink = async () => {
-    if (inviteLinks) return; // Already loaded
-    
-    setLoadingInviteLink(true);
+    // Reloaded each time so the usage count is current
+    setLoadingInviteLink(inviteLink === null);
     try {
-      const response = await apiClient.getInviteLink(parseInt(groupId));
-      if (response.error) {
-        throw new Error(response.error);
-      }
-      if (response.data) {
-        const token = response.data.invite_token;
-        // Generate both native and web invite links
-        const origin = Platform.OS === 'web' && typeof window !== 'undefined' 
-          ? window.location.origin 
-          : process.env.EXPO_PUBLIC_WEB_URL || 'https://geschenk25.vercel.app';
-        const nativeLink = `geschenk25://join/${token}`;
-        const webLink = `${origin}/join/${token}`;
-        setInviteLinks({ native: nativeLink, web: webLink });
-      }
+      setInviteLink(await groupService.getInviteLink(groupId));
     } catch (error: any) {
       console.error('Error getting invite link:', error);
     } finally {
@@ -339,6 +777,183 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
   };
 
+  const inviteLinkExpired = !!inviteLink?.expires_at && new Date(inviteLink.expires_at).getTime() <= Date.now();
+
+  // An expired expiry is dropped, as the server only accepts one in the future
+  const currentInviteLinkSettings = (): InviteLinkSettings => ({
+    expires_at: inviteLinkExpired ? null : inviteLink?.expires_at ?? null,
+    max_uses: inviteLink?.max_uses ?? null,
+    requires_approval: inviteLink?.requires_approval ?? false,
+  });
+
+  const changeInviteLink = async (change: () => Promise<InviteLink | null>) => {
+    setUpdatingInviteLink(true);
+    try {
+      const updated = await change();
+      setInviteLink(updated ?? { invite_token: null, expires_at: null, max_uses: null, use_count: 0, requires_approval: false });
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setUpdatingInviteLink(false);
+    }
+  };
+
+  const handleSetInviteLinkExpiry = (days: number | null) => {
+    const expiresAt = days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+    changeInviteLink(() => groupService.updateInviteLink(groupId, { ...currentInviteLinkSettings(), expires_at: expiresAt }));
+  };
+
+  const handleSetInviteLinkMaxUses = (maxUses: number | null) => {
+    changeInviteLink(() => groupService.updateInviteLink(groupId, { ...currentInviteLinkSettings(), max_uses: maxUses }));
+  };
+
+  const handleSetInviteLinkApproval = (requiresApproval: boolean) => {
+    changeInviteLink(() => groupService.updateInviteLink(groupId, { ...currentInviteLinkSettings(), requires_approval: requiresApproval }));
+  };
+
+  const handleRegenerateInviteLink = () => {
+    const regenerate = () => changeInviteLink(() => groupService.regenerateInviteLink(groupId, currentInviteLinkSettings()));
+    if (!inviteLink?.invite_token) {
+      regenerate();
+      return;
+    }
+    confirmDestructive(
+      'New Invite Link',
+      'The current link will stop working. Anyone who hasn\'t joined yet needs the new link.',
+      'New Link',
+      regenerate
+    );
+  };
+
+  const handleRevokeInviteLink = () => {
+    confirmDestructive(
+      'Turn Off Invite Link',
+      'Nobody will be able to join with the link anymore. You can create a new link later.',
+      'Turn Off',
+      () => changeInviteLink(async () => {
+        await groupService.revokeInviteLink(groupId);
+        return null;
+      })
+    );
+  };
+
+  const resetPlaceholderForm = () => {
+    setPlaceholderName('');
+    setPlaceholderEmail('');
+    setPlaceholderPhone('');
+    setPlaceholderFieldErrors({});
+  };
+
+  const handleAddPlaceholder = async () => {
+    setAddingPlaceholder(true);
+    try {
+      const member = await groupService.addPlaceholderMember(groupId, {
+        display_name: placeholderName,
+        email: placeholderEmail,
+        phone: placeholderPhone,
+      });
+      resetPlaceholderForm();
+      await loadGroup();
+      confirm(
+        'Share Claim Link',
+        `${member.display_name} is part of the group now. Send them a link so they can take over their place if they ever sign up?`,
+        () => handleShareClaimLink(member)
+      );
+    } catch (error: any) {
+      if (error instanceof GroupServiceError && error.appError.fieldErrors) {
+        setPlaceholderFieldErrors(error.appError.fieldErrors);
+        return;
+      }
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setAddingPlaceholder(false);
+    }
+  };
+
+  const handleShareClaimLink = async (member: GroupMember) => {
+    if (!group) return;
+
+    try {
+      const links = getClaimLinks(await groupService.getPlaceholderClaimToken(groupId, member.id));
+      await Share.share({
+        message: `Hi ${member.display_name}, you're part of our Secret Santa "${group.name}"! Create an account to see who you're giving a gift to:\n\n${links.web}`,
+        url: links.web,
+      });
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    }
+  };
+
+  // Sends the participant's unopened link again, or a new one once it has been opened
+  const handleShareRevealLink = async (pairing: RoundPairing) => {
+    if (!group) return;
+
+    setSharingRevealFor(pairing.giver_id);
+    try {
+      // Resend the link that is still unopened, a new one would stop it from working
+      const token = await groupService.getRevealLink(groupId, pairing.giver_id)
+        ?? await groupService.createRevealLink(groupId, pairing.giver_id);
+      const link = getRevealLink(token);
+      await Share.share({
+        message: `Hi ${pairing.giver_display_name}, find out who you're giving a gift to in our Secret Santa "${group.name}". The link only works once, so open it when nobody is watching:\n\n${link}`,
+        url: link,
+      });
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSharingRevealFor(null);
+    }
+  };
+
+  // One slip per giver for handing out the results in person
+  const handlePrintSlips = async () => {
+    if (!group || managedPairings.length === 0) return;
+
+    // Opened before loading the links, as browsers only allow pop-ups right after a tap
+    const printWindow = Platform.OS === 'web' ? window.open('', '_blank') : null;
+    if (Platform.OS === 'web' && !printWindow) {
+      Alert.alert('Error', 'Allow pop-ups for this site to print the slips.');
+      return;
+    }
+
+    setPrintingSlips(true);
+    try {
+      const slipLinks = await groupService.createSlipLinks(groupId);
+      const giftIdeasUrls = Object.fromEntries(slipLinks.map(link => [link.giver_id, getSlipLink(link.token)]));
+      const slips = buildDrawSlips(group, managedPairings, giftIdeasUrls);
+
+      // Saving as a PDF is an option of the print dialog
+      if (printWindow) {
+        printWindow.document.write(slips);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+        return;
+      }
+      await Print.printAsync({ html: slips });
+    } catch (error: unknown) {
+      printWindow?.close();
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setPrintingSlips(false);
+    }
+  };
+
   const handleShareInviteLink = async () => {
     if (!inviteLinks || !group) return;
     
@@ -354,6 +969,44 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
   };
 
 
+  const handleAddToCalendar = async () => {
+    if (!group?.event_date) return;
+
+    const calendar = buildGroupCalendar(group, getGroupLink(group.id));
+    const fileName = calendarFileName(group);
+    try {
+      if (Platform.OS === 'web') {
+        // Download the file; opening it adds the event to the default calendar app
+        const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.style.display = 'none';
+        document.body.appendChild(link);
+        link.click();
+        setTimeout(() => {
+          if (link.parentNode) {
+            document.body.removeChild(link);
+          }
+          URL.revokeObjectURL(url);
+        }, 100);
+        return;
+      }
+
+      const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(fileUri, calendar);
+      // Share the file itself, so it opens in a calendar app
+      if (Platform.OS === 'android') {
+        await Sharing.shareAsync(fileUri, { mimeType: 'text/calendar', dialogTitle: group.name });
+      } else {
+        await Share.share({ url: fileUri, title: group.name });
+      }
+    } catch (error: any) {
+      console.error('Error exporting calendar event:', error);
+      Alert.alert('Error', 'Failed to export the calendar event. Please try again.');
+    }
+  };
+
   const handleRemoveMember = (memberId: number, memberUsername: string) => {
     if (!group) return;
 
@@ -384,60 +1037,210 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     );
   };
 
-  const handleCancelInvitation = (invitationId: number, username: string) => {
-    if (!group) return;
-
-    Alert.alert(
-      'Remove Invitation',
-      `Are you sure you want to remove the invitation for ${username}?`,
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Remove',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await groupService.cancelInvitation(groupId, invitationId);
-              await loadGroup();
-            } catch (error: any) {
-              const errorMessage = error instanceof GroupServiceError 
-                ? error.appError.userMessage 
-                : getErrorMessage(error);
-              Alert.alert('Error', errorMessage);
-            }
-          },
-        },
-      ]
-    );
-  };
-
-  const handleAddExclusion = async (giverId: number, excludedUserId: number, excludedUserName: string) => {
-    if (!group || !userId) return;
+  const handleToggleAdmin = (member: GroupMember) => {
+    const makeAdmin = member.role !== 'admin';
+    const title = makeAdmin ? 'Make Admin' : 'Remove Admin';
+    const message = makeAdmin
+      ? `${member.display_name} will be able to invite and remove members, manage exclusions and run the draw.`
+      : `${member.display_name} will no longer be able to manage the group.`;
 
-    try {
-      const response = await apiClient.addExclusion(parseInt(groupId), excludedUserId, giverId);
-      if (response.error) {
-        Alert.alert('Error', response.error);
-        return;
-      }
-      // Reload exclusions
-      const exclusionsResponse = await apiClient.getExclusions(parseInt(groupId));
-      if (exclusionsResponse.data) {
-        setExclusions(exclusionsResponse.data.exclusions);
+    const updateRole = async () => {
+      try {
+        const updated = await groupService.updateMemberRole(groupId, member.id, makeAdmin ? 'admin' : 'member');
+        setGroup(current => (current ? {
+          ...current,
+          members: current.members?.map(m => (m.id === updated.id ? { ...m, role: updated.role } : m)),
+        } : current));
+      } catch (error: any) {
+        const errorMessage = error instanceof GroupServiceError 
+          ? error.appError.userMessage 
+          : getErrorMessage(error);
+        Alert.alert('Error', errorMessage);
       }
-      // Close modal and reset selection
-      setExclusionModalVisible(false);
-      setSelectedMember1(null);
-      setSelectedMember2(null);
-    } catch (error: any) {
-      Alert.alert('Error', getErrorMessage(error));
+    };
+
+    if (makeAdmin) {
+      confirm(title, message, updateRole);
+    } else {
+      confirmDestructive(title, message, 'Remove Admin', updateRole);
     }
   };
 
-  const handleSelectMemberForExclusion = (member: { id: number; display_name?: string; username: string }) => {
+  const handleOfferOwnership = (member: GroupMember) => {
+    confirm(
+      'Transfer Ownership',
+      `${member.display_name} will be asked to become the owner of this group. Once they accept, you become an admin and can leave the group.`,
+      async () => {
+        try {
+          const transfer = await groupService.requestOwnershipTransfer(groupId, member.id);
+          setGroup(current => (current ? { ...current, pending_transfer: transfer } : current));
+        } catch (error: any) {
+          const errorMessage = error instanceof GroupServiceError 
+            ? error.appError.userMessage 
+            : getErrorMessage(error);
+          Alert.alert('Error', errorMessage);
+        }
+      }
+    );
+  };
+
+  const handleCancelOwnershipTransfer = async () => {
+    try {
+      await groupService.cancelOwnershipTransfer(groupId);
+      setGroup(current => (current ? { ...current, pending_transfer: null } : current));
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    }
+  };
+
+  const handleRespondToOwnershipTransfer = async (accept: boolean) => {
+    setRespondingToTransfer(true);
+    try {
+      if (accept) {
+        setGroup(await groupService.acceptOwnershipTransfer(groupId));
+      } else {
+        await groupService.declineOwnershipTransfer(groupId);
+        setGroup(current => (current ? { ...current, pending_transfer: null } : current));
+      }
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setRespondingToTransfer(false);
+    }
+  };
+
+  const handleReviewJoinRequest = (request: JoinRequest, approve: boolean) => {
+    const review = async () => {
+      setReviewingJoinRequestId(request.id);
+      try {
+        if (approve) {
+          await groupService.approveJoinRequest(groupId, request.id);
+        } else {
+          await groupService.denyJoinRequest(groupId, request.id);
+        }
+        await loadGroup();
+      } catch (error: any) {
+        const errorMessage = error instanceof GroupServiceError 
+          ? error.appError.userMessage 
+          : getErrorMessage(error);
+        Alert.alert('Error', errorMessage);
+      } finally {
+        setReviewingJoinRequestId(null);
+      }
+    };
+
+    if (approve) {
+      review();
+      return;
+    }
+    confirmDestructive(
+      'Deny Request',
+      `${request.display_name} won't be added to the group and will be notified.`,
+      'Deny',
+      review
+    );
+  };
+
+  const handleCancelInvitation = (invitationId: number, username: string) => {
+    if (!group) return;
+
+    Alert.alert(
+      'Remove Invitation',
+      `Are you sure you want to remove the invitation for ${username}?`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await groupService.cancelInvitation(groupId, invitationId);
+              await loadGroup();
+            } catch (error: any) {
+              const errorMessage = error instanceof GroupServiceError 
+                ? error.appError.userMessage 
+                : getErrorMessage(error);
+              Alert.alert('Error', errorMessage);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Queue a write for later if the server can't be reached, returns whether it was queued
+  const queueIfOffline = async (error: unknown, mutation: OutboxMutation) => {
+    if (!(error instanceof GroupServiceError) || !isConnectivityError(error.appError)) {
+      return false;
+    }
+    // A timed out create may have reached the server; show the error rather than queue a duplicate
+    if (mayHaveBeenApplied(mutation, error.appError)) {
+      return false;
+    }
+    await outbox.enqueue(groupId, mutation);
+    return true;
+  };
+
+  // Add the given directed exclusions, queueing them if the server can't be reached
+  const addExclusions = async (rows: DrawConstraint[]) => {
+    let queued = false;
+    for (const row of rows) {
+      try {
+        await groupService.addExclusion(groupId, row.giver_id, row.excluded_user_id);
+      } catch (error: any) {
+        const mutation: OutboxMutation = { type: 'addExclusion', giverId: row.giver_id, excludedUserId: row.excluded_user_id };
+        if (!(await queueIfOffline(error, mutation))) {
+          throw error;
+        }
+        queued = true;
+      }
+    }
+    if (!queued) {
+      // Reload exclusions
+      setExclusions(await groupService.getExclusions(groupId));
+    }
+  };
+
+  // Remove the given directed exclusions, dropping queued ones that never reached the server
+  const removeExclusions = async (rows: OptimisticExclusion[]) => {
+    let queued = false;
+    for (const exclusion of rows) {
+      if (exclusion.outboxEntryId) {
+        await outbox.discard(exclusion.outboxEntryId);
+        continue;
+      }
+      try {
+        await groupService.removeExclusion(groupId, exclusion.id);
+      } catch (error: any) {
+        if (!(await queueIfOffline(error, { type: 'removeExclusion', exclusionId: exclusion.id }))) {
+          throw error;
+        }
+        queued = true;
+      }
+    }
+    if (!queued) {
+      // Reload exclusions
+      setExclusions(await groupService.getExclusions(groupId));
+    }
+  };
+
+  const showExclusionError = (error: unknown) => {
+    const errorMessage = error instanceof GroupServiceError 
+      ? error.appError.userMessage 
+      : getErrorMessage(error);
+    Alert.alert('Error', errorMessage);
+  };
+
+  const handleSelectMemberForExclusion = (member: { id: number; display_name?: string; username: string }) => {
     if (!group) return;
     
     const memberName = member.display_name || member.username;
@@ -463,79 +1266,407 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
   };
 
-  const handleConfirmExclusionPair = () => {
-    if (!selectedMember1 || !selectedMember2) return;
-    
-    // Check if this pair already exists
-    const pairKey1 = `${selectedMember1.id}-${selectedMember2.id}`;
-    const pairKey2 = `${selectedMember2.id}-${selectedMember1.id}`;
-    const pairExists = exclusions.some(
-      ex => `${ex.giver_id}-${ex.excluded_user_id}` === pairKey1 || 
-            `${ex.giver_id}-${ex.excluded_user_id}` === pairKey2
-    );
-    
-    if (pairExists) {
-      Alert.alert('Pair already exists', 'This exclusion pair has already been created.');
+  const handleConfirmExclusionPair = async () => {
+    if (!group || !userId || !selectedMember1 || !selectedMember2) return;
+
+    const forward = { giver_id: selectedMember1.id, excluded_user_id: selectedMember2.id };
+    const backward = { giver_id: selectedMember2.id, excluded_user_id: selectedMember1.id };
+    const requested = exclusionDirection === 'mutual'
+      ? [forward, backward]
+      : [exclusionDirection === 'forward' ? forward : backward];
+
+    // Only add the directions that don't exist yet
+    const rows = requested.filter(row => !displayedExclusions.some(
+      ex => ex.giver_id === row.giver_id && ex.excluded_user_id === row.excluded_user_id
+    ));
+    if (rows.length === 0) {
+      Alert.alert('Exclusion already exists', 'This exclusion has already been created.');
       return;
     }
-    
-    handleAddExclusion(selectedMember1.id, selectedMember2.id, selectedMember2.name);
+
+    const feasibility = checkDrawFeasibility(drawMembers, [...drawConstraints, ...rows]);
+    if (!feasibility.feasible) {
+      Alert.alert(
+        'Draw would be impossible',
+        `With this exclusion nobody could be assigned a valid match. ${feasibility.explanation}`
+      );
+      return;
+    }
+
+    try {
+      await addExclusions(rows);
+      // Close modal and reset selection
+      setExclusionModalVisible(false);
+      setSelectedMember1(null);
+      setSelectedMember2(null);
+      setExclusionDirection('mutual');
+    } catch (error: any) {
+      showExclusionError(error);
+    }
   };
 
-  const handleRemoveExclusion = async (exclusionId: number) => {
+  const handleRemoveExclusionPair = async (rows: OptimisticExclusion[]) => {
     if (!group || !userId) return;
 
     try {
-      const response = await apiClient.removeExclusion(parseInt(groupId), exclusionId);
-      if (response.error) {
-        Alert.alert('Error', response.error);
+      await removeExclusions(rows);
+    } catch (error: any) {
+      showExclusionError(error);
+    }
+  };
+
+  // Make a mutual pair one-way, keeping the direction the owner chose
+  const handleMakeExclusionOneWay = async (rows: OptimisticExclusion[], keep: OptimisticExclusion) => {
+    if (!group || !userId) return;
+
+    setChoosingOneWayFor(null);
+    try {
+      await removeExclusions(rows.filter(ex => ex.id !== keep.id));
+    } catch (error: any) {
+      showExclusionError(error);
+    }
+  };
+
+  // Make a one-way pair mutual
+  const handleMakeExclusionMutual = async (rows: OptimisticExclusion[]) => {
+    if (!group || !userId) return;
+
+    const [first] = rows;
+    try {
+      const reverse = { giver_id: first.excluded_user_id, excluded_user_id: first.giver_id };
+      const feasibility = checkDrawFeasibility(drawMembers, [...drawConstraints, reverse]);
+      if (!feasibility.feasible) {
+        Alert.alert(
+          'Draw would be impossible',
+          `Making this exclusion mutual would leave no valid draw. ${feasibility.explanation}`
+        );
         return;
       }
-      // Reload exclusions
-      const exclusionsResponse = await apiClient.getExclusions(parseInt(groupId));
-      if (exclusionsResponse.data) {
-        setExclusions(exclusionsResponse.data.exclusions);
+      await addExclusions([reverse]);
+    } catch (error: any) {
+      showExclusionError(error);
+    }
+  };
+
+  const handleOpenHouseholdModal = (household?: Household) => {
+    setEditingHousehold(household || null);
+    setHouseholdName(household?.name || '');
+    setHouseholdMemberIds(household?.member_ids || []);
+    setHouseholdModalVisible(true);
+  };
+
+  const handleCloseHouseholdModal = () => {
+    setHouseholdModalVisible(false);
+    setEditingHousehold(null);
+    setHouseholdName('');
+    setHouseholdMemberIds([]);
+  };
+
+  const handleToggleHouseholdMember = (memberId: number) => {
+    setHouseholdMemberIds(prev => (
+      prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]
+    ));
+  };
+
+  const handleSaveHousehold = async () => {
+    if (!group) return;
+
+    if (!householdName.trim()) {
+      Alert.alert('Error', 'Please enter a name for the household');
+      return;
+    }
+    if (householdMemberIds.length < 2) {
+      Alert.alert('Error', 'A household needs at least 2 members');
+      return;
+    }
+
+    // Check the draw is still possible with the exclusions this household implies
+    const edited: Household = { id: editingHousehold?.id ?? -1, name: householdName.trim(), member_ids: householdMemberIds };
+    const households = [...(group.households || []).filter(h => h.id !== edited.id), edited];
+    const feasibility = checkDrawFeasibility(drawMembers, [
+      ...displayedExclusions,
+      ...householdExclusions(households, drawMembers.map(m => m.id)),
+    ]);
+    if (!feasibility.feasible) {
+      Alert.alert(
+        'Draw would be impossible',
+        `With this household nobody could be assigned a valid match. ${feasibility.explanation}`
+      );
+      return;
+    }
+
+    setSavingHousehold(true);
+    try {
+      if (editingHousehold) {
+        await groupService.updateHousehold(groupId, editingHousehold.id, edited.name, edited.member_ids);
+      } else {
+        await groupService.createHousehold(groupId, edited.name, edited.member_ids);
       }
+      handleCloseHouseholdModal();
+      await loadGroup(false);
     } catch (error: any) {
-      Alert.alert('Error', getErrorMessage(error));
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSavingHousehold(false);
     }
   };
 
-  const handleAssignSecretSanta = () => {
+  const handleDeleteHousehold = () => {
+    if (!editingHousehold) return;
+
+    confirmDestructive(
+      'Delete Household',
+      `Are you sure you want to delete "${editingHousehold.name}"? Its members will be able to draw each other again, unless excluded by hand.`,
+      'Delete',
+      async () => {
+        setSavingHousehold(true);
+        try {
+          await groupService.deleteHousehold(groupId, editingHousehold.id);
+          handleCloseHouseholdModal();
+          await loadGroup(false);
+        } catch (error: any) {
+          const errorMessage = error instanceof GroupServiceError 
+            ? error.appError.userMessage 
+            : getErrorMessage(error);
+          Alert.alert('Error', errorMessage);
+        } finally {
+          setSavingHousehold(false);
+        }
+      }
+    );
+  };
+
+  const runAssignment = async (options?: DrawOptions) => {
+    setAssigning(true);
+    try {
+      await groupService.assignSecretSanta(groupId, options);
+      await loadGroup();
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  // Whether the draw is still possible when none of the selected previous pairings may repeat
+  const historyFeasibility = checkDrawFeasibility(drawMembers, [
+    ...drawConstraints,
+    ...previousPairings(drawHistory, avoidPreviousRounds),
+  ]);
+
+  const handleAssignSecretSanta = async () => {
     if (!group) return;
 
-    const totalMembers = group.members?.length || 0; // members array already includes owner
+    const totalMembers = drawMembers.length; // members array already includes owner, unless managed
     if (totalMembers < 2) {
       Alert.alert('Error', 'Need at least 2 members to create Secret Santa assignments');
       return;
     }
 
-    Alert.alert(
-      'Assign Secret Santa',
-      'This will randomly assign each member to another member.',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Assign',
-          onPress: async () => {
-            setAssigning(true);
-            try {
-              await groupService.assignSecretSanta(groupId);
-              await loadGroup();
-            } catch (error: any) {
-              const errorMessage = error instanceof GroupServiceError 
-                ? error.appError.userMessage 
-                : getErrorMessage(error);
-              Alert.alert('Error', errorMessage);
-            } finally {
-              setAssigning(false);
-            }
+    if (!drawFeasibility.feasible) {
+      Alert.alert(
+        'Draw not possible',
+        `${drawFeasibility.explanation} Remove an exclusion to continue.`
+      );
+      return;
+    }
+
+    const history = await groupService.getDrawHistory(groupId);
+    if (history.length === 0) {
+      Alert.alert(
+        'Assign Secret Santa',
+        'This will randomly assign each member to another member.',
+        [
+          {
+            text: 'Cancel',
+            style: 'cancel',
           },
-        },
-      ]
+          {
+            text: 'Assign',
+            onPress: () => runAssignment(),
+          },
+        ]
+      );
+      return;
+    }
+
+    // Default to not repeating last draw's pairings, unless that is impossible
+    const lastDrawFeasible = checkDrawFeasibility(drawMembers, [
+      ...drawConstraints,
+      ...previousPairings(history, 1),
+    ]).feasible;
+    setDrawHistory(history);
+    setAvoidPreviousRounds(1);
+    setHistoryMode(lastDrawFeasible ? 'hard' : 'soft');
+    setAssignModalVisible(true);
+  };
+
+  const handleConfirmAssign = () => {
+    if (avoidPreviousRounds > 0 && historyMode === 'hard' && !historyFeasibility.feasible) {
+      Alert.alert(
+        'Draw not possible',
+        `Never repeating the pairings of the last ${avoidPreviousRounds === 1 ? 'draw' : `${avoidPreviousRounds} draws`} leaves no valid draw. ${historyFeasibility.explanation}`
+      );
+      return;
+    }
+
+    setAssignModalVisible(false);
+    runAssignment({ avoidPreviousRounds, historyMode });
+  };
+
+  // Past rounds open read-only; the current round is what the rest of the screen shows
+  const handleSelectRound = async (round: Round) => {
+    if (round.id === group?.current_round?.id) return;
+
+    setLoadingRoundId(round.id);
+    try {
+      const [roundDetail, history] = await Promise.all([
+        groupService.getRound(groupId, round.id),
+        groupService.getDrawHistory(groupId),
+      ]);
+      setViewingRoundDraw(history.find(draw => draw.round_id === round.id) || null);
+      setViewingRound(roundDetail);
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setLoadingRoundId(null);
+    }
+  };
+
+  // A past round's draw comes from the draw history, named after the members of that round
+  const viewingRoundPairings = viewingRound && viewingRoundDraw
+    ? viewingRoundDraw.pairings.map(pairing => ({
+        ...pairing,
+        giver_display_name: viewingRound.members.find(m => m.id === pairing.giver_id)?.display_name || 'Unknown',
+        receiver_display_name: viewingRound.members.find(m => m.id === pairing.receiver_id)?.display_name || 'Unknown',
+      }))
+    : [];
+
+  // As in the current round: the ideas you added, and those for whoever you gave to
+  const viewingRoundReceiverId = viewingRoundDraw?.pairings.find(p => p.giver_id === userId)?.receiver_id;
+  const viewingRoundGiftIdeas = (viewingRound?.gift_ideas || []).filter(idea =>
+    idea.created_by_id === userId || (idea.for_user_id === viewingRoundReceiverId && idea.for_user_id !== userId)
+  );
+
+  const handleOpenNewRoundModal = () => {
+    setNewRoundName(String(new Date().getFullYear()));
+    setNewRoundModalVisible(true);
+  };
+
+  const handleCreateRound = async () => {
+    if (!newRoundName.trim()) {
+      Alert.alert('Error', 'Please enter a name for the round');
+      return;
+    }
+
+    setSavingRound(true);
+    try {
+      await groupService.createRound(groupId, newRoundName.trim());
+      setNewRoundModalVisible(false);
+      setNewRoundName('');
+      await loadGroup();
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSavingRound(false);
+    }
+  };
+
+  const handleCloseRound = () => {
+    const round = group?.current_round;
+    if (!round) return;
+
+    confirmDestructive(
+      'Close Round',
+      `Close "${round.name}"? Who gave to whom will be revealed to all members in the round history, and the draw can no longer be changed.`,
+      'Close Round',
+      async () => {
+        try {
+          await groupService.closeRound(groupId, round.id);
+          await loadGroup();
+        } catch (error: any) {
+          const errorMessage = error instanceof GroupServiceError 
+            ? error.appError.userMessage 
+            : getErrorMessage(error);
+          Alert.alert('Error', errorMessage);
+        }
+      }
+    );
+  };
+
+  const handleOpenScheduleModal = () => {
+    if (!group) return;
+
+    if (!drawFeasibility.feasible) {
+      Alert.alert(
+        'Draw not possible',
+        `${drawFeasibility.explanation} Remove an exclusion to continue.`
+      );
+      return;
+    }
+
+    // Prefill the current schedule, or a week from now in the evening
+    let drawAt = group.draw_schedule ? new Date(group.draw_schedule.draw_at) : null;
+    if (!drawAt) {
+      drawAt = new Date();
+      drawAt.setDate(drawAt.getDate() + 7);
+      drawAt.setHours(18, 0, 0, 0);
+    }
+    setScheduleDate(toDateInput(drawAt));
+    setScheduleTime(toTimeInput(drawAt));
+    setScheduleModalVisible(true);
+  };
+
+  const handleScheduleDraw = async () => {
+    const drawAt = parseLocalDateTime(scheduleDate.trim(), scheduleTime.trim());
+    if (!drawAt) {
+      Alert.alert('Error', 'Enter the date as YYYY-MM-DD and the time as HH:MM.');
+      return;
+    }
+
+    setSavingSchedule(true);
+    try {
+      const drawSchedule = await groupService.scheduleDraw(groupId, drawAt);
+      setGroup(current => (current ? { ...current, draw_schedule: drawSchedule } : current));
+      setScheduleModalVisible(false);
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const handleCancelScheduledDraw = () => {
+    confirmDestructive(
+      'Cancel Scheduled Draw',
+      'The draw will no longer run automatically. You can still assign manually.',
+      'Cancel Draw',
+      async () => {
+        try {
+          await groupService.cancelScheduledDraw(groupId);
+          setGroup(current => (current ? { ...current, draw_schedule: null } : current));
+        } catch (error: any) {
+          const errorMessage = error instanceof GroupServiceError 
+            ? error.appError.userMessage 
+            : getErrorMessage(error);
+          Alert.alert('Error', errorMessage);
+        }
+      }
     );
   };
 
@@ -572,7 +1703,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     );
   };
 
-  const handleOpenGiftIdeaModal = (forUserId?: number, giftIdea?: GiftIdea) => {
+  const handleOpenGiftIdeaModal = (forUserId?: number, giftIdea?: OptimisticGiftIdea) => {
     if (giftIdea) {
       setEditingGiftIdea(giftIdea);
       setGiftIdeaText(giftIdea.idea);
@@ -603,12 +1734,34 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
 
     setSavingGiftIdea(true);
+    const linkValue = giftIdeaLink.trim() || undefined;
+    const mutation: OutboxMutation = editingGiftIdea && editingGiftIdea.id > 0
+      ? { type: 'updateGiftIdea', ideaId: editingGiftIdea.id, idea: giftIdeaText.trim(), link: linkValue }
+      : { type: 'createGiftIdea', forUserId: selectedForUserId, idea: giftIdeaText.trim(), link: linkValue };
+
+    // Editing a change that hasn't synced yet: rewrite the queued write instead
+    if (editingGiftIdea?.outboxEntryId) {
+      await outbox.replace(editingGiftIdea.outboxEntryId, mutation);
+      outbox.flush();
+      setSavingGiftIdea(false);
+      handleCloseGiftIdeaModal();
+      return;
+    }
+
     try {
-      const linkValue = giftIdeaLink.trim() || undefined;
-      if (editingGiftIdea) {
-        await groupService.updateGiftIdea(groupId, editingGiftIdea.id, giftIdeaText.trim(), linkValue);
-      } else {
-        await groupService.createGiftIdea(groupId, selectedForUserId, giftIdeaText.trim(), linkValue);
+      try {
+        if (mutation.type === 'updateGiftIdea') {
+          await groupService.updateGiftIdea(groupId, mutation.ideaId, mutation.idea, mutation.link);
+        } else {
+          await groupService.createGiftIdea(groupId, selectedForUserId, mutation.idea, mutation.link);
+        }
+      } catch (error: any) {
+        // Offline: keep the typed text in the outbox and show it optimistically
+        if (await queueIfOffline(error, mutation)) {
+          handleCloseGiftIdeaModal();
+          return;
+        }
+        throw error;
       }
       handleCloseGiftIdeaModal();
       // Delay loadGroup to avoid race condition with modal dismissal
@@ -625,7 +1778,8 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
   };
 
-  const handleDeleteGiftIdea = (ideaId: number) => {
+  const handleDeleteGiftIdea = (idea: OptimisticGiftIdea) => {
+    const ideaId = idea.id;
     Alert.alert(
       'Delete Gift Idea',
       'Are you sure you want to delete this gift idea?',
@@ -640,7 +1794,16 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
           onPress: async () => {
             setDeletingGiftIdea(ideaId);
             try {
+              // Unsynced ideas only exist in the outbox
+              if (ideaId < 0 && idea.outboxEntryId) {
+                await outbox.discard(idea.outboxEntryId);
+                return;
+              }
               await groupService.deleteGiftIdea(groupId, ideaId);
+              // A queued edit of a deleted idea can never be replayed
+              if (idea.outboxEntryId) {
+                await outbox.discard(idea.outboxEntryId);
+              }
               await loadGroup();
             } catch (error: any) {
               const errorMessage = error instanceof GroupServiceError 
@@ -662,8 +1825,8 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     setAssignedPersonGiftIdeasModalVisible(true);
     setLoadingAssignedPersonGiftIdeas(true);
     try {
-      const ideas = await groupService.getGiftIdeas(groupId, assignment.receiver_id);
-      setAssignedPersonGiftIdeas(ideas);
+      const ideasResult = await groupService.getGiftIdeas(groupId, assignment.receiver_id);
+      setAssignedPersonGiftIdeas(ideasResult.data);
     } catch (error: any) {
       const errorMessage = error instanceof GroupServiceError 
         ? error.appError.userMessage 
@@ -675,8 +1838,45 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
     }
   };
 
+  const handleToggleGiftIdeaReservation = async (idea: GiftIdea) => {
+    if (!assignment) return;
+
+    setReservingGiftIdeaId(idea.id);
+    try {
+      const updated = idea.reserved_by_me
+        ? await groupService.unreserveGiftIdea(groupId, idea.id)
+        : await groupService.reserveGiftIdea(groupId, idea.id);
+      setAssignedPersonGiftIdeas(current => current.map(i => (i.id === updated.id ? updated : i)));
+    } catch (error: any) {
+      const errorMessage = error instanceof GroupServiceError 
+        ? error.appError.userMessage 
+        : getErrorMessage(error);
+      Alert.alert('Error', errorMessage);
+      // Someone else may have reserved it in the meantime
+      if (error instanceof GroupServiceError && error.appError.code === ErrorCode.GIFT_IDEA_RESERVED) {
+        const ideasResult = await groupService.getGiftIdeas(groupId, assignment.receiver_id);
+        setAssignedPersonGiftIdeas(ideasResult.data);
+      }
+    } finally {
+      setReservingGiftIdeaId(null);
+    }
+  };
+
+  const handleDiscardPendingChange = (entry: OutboxEntry) => {
+    if (!group) return;
+
+    confirmDestructive(
+      'Discard Change',
+      `${describeMutation(entry, group)}\n\nThis change has not been saved yet and will be lost.`,
+      'Discard',
+      async () => {
+        await outbox.discard(entry.id);
+      }
+    );
+  };
+
   // Check if assignments exist (if current user has an assignment, assignments have been made)
-  const hasAssignments = assignment !== null;
+  const hasAssignments = assignment !== null || managedPairings.length > 0;
 
   const paddingTop = Platform.OS === 'ios' ? 50 : StatusBar.currentHeight || 0;
 
@@ -719,6 +1919,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
 
   const isOwner = userId !== null && userId === group.created_by;
   const isMember = userId !== null && (isOwner || group.members?.some(m => m.id === userId));
+  const can = (permission: GroupPermission) => hasPermission(group, userId, permission);
 
   return (
     <View style={[commonStyles.container, { paddingTop }]}>
@@ -734,14 +1935,13 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
           )}
           <Text style={styles.title}>{group.name}</Text>
         </View>
-        <TouchableOpacity style={styles.infoButton} onPress={() => {
-          setEditingImage(group?.image_url || null);
-          setDetailsModalVisible(true);
-        }}>
+        <TouchableOpacity style={styles.infoButton} onPress={openDetails}>
           <Text style={styles.infoButtonText}>Details</Text>
           </TouchableOpacity>
       </View>
 
+      {isOffline && <OfflineBanner updatedAt={lastUpdated} />}
+
       <ScrollView
         style={styles.scrollView}
         refreshControl={
@@ -749,20 +1949,123 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
         }
       >
         <View style={styles.content}>
+          {group.pending_transfer && group.pending_transfer.to_user_id === userId && (
+            <View style={styles.transferBanner}>
+              <Text style={styles.transferBannerText}>
+                {group.owner?.display_name || 'The owner'} wants to make you the owner of this group.
+              </Text>
+              <View style={styles.transferBannerActions}>
+                <TouchableOpacity
+                  style={[styles.transferBannerButton, styles.transferDeclineButton]}
+                  onPress={() => handleRespondToOwnershipTransfer(false)}
+                  disabled={respondingToTransfer}
+                >
+                  <Text style={styles.transferDeclineButtonText}>Decline</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.transferBannerButton, respondingToTransfer && styles.buttonDisabled]}
+                  onPress={() => handleRespondToOwnershipTransfer(true)}
+                  disabled={respondingToTransfer}
+                >
+                  {respondingToTransfer ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.transferAcceptButtonText}>Accept</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {hasEventDetails(group) && (
+            <View style={styles.eventCard}>
+              {group.event_date && (
+                <View style={styles.eventRow}>
+                  <Text style={styles.eventIcon}>📅</Text>
+                  <View style={styles.eventRowText}>
+                    <Text style={styles.eventValue}>{formatEventDate(group.event_date, group.event_time)}</Text>
+                    {daysUntil(group.event_date) !== null && (
+                      <Text style={styles.eventSubValue}>{formatDaysUntil(daysUntil(group.event_date)!)}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={handleAddToCalendar}>
+                    <Text style={styles.addToCalendarText}>Add to calendar</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {group.location && (
+                <View style={styles.eventRow}>
+                  <Text style={styles.eventIcon}>📍</Text>
+                  <Text style={[styles.eventValue, styles.eventRowText]}>{group.location}</Text>
+                </View>
+              )}
+              {group.budget != null && (
+                <View style={styles.eventRow}>
+                  <Text style={styles.eventIcon}>💰</Text>
+                  <Text style={[styles.eventValue, styles.eventRowText]}>
+                    Up to {formatBudget(group.budget, group.currency)} per gift
+                  </Text>
+                </View>
+              )}
+              {group.rules && (
+                <View style={styles.eventRow}>
+                  <Text style={styles.eventIcon}>📜</Text>
+                  <Text style={[styles.eventRules, styles.eventRowText]}>{group.rules}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
           {group.description && (
             <View style={styles.descriptionSection}>
               <Text style={styles.groupDescription}>{group.description}</Text>
             </View>
           )}
 
+          {isMember && ((group.rounds && group.rounds.length > 0) || can('manage_rounds')) && (
+            <View style={styles.roundBar}>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.roundChips}>
+                {group.rounds?.map((round) => {
+                  const isCurrent = round.id === group.current_round?.id;
+                  return (
+                    <TouchableOpacity
+                      key={round.id}
+                      style={[styles.roundChip, isCurrent && styles.roundChipSelected]}
+                      onPress={() => handleSelectRound(round)}
+                      disabled={loadingRoundId !== null}
+                    >
+                      {loadingRoundId === round.id ? (
+                        <ActivityIndicator size="small" color={colors.primary} />
+                      ) : (
+                        <Text style={[styles.roundChipText, isCurrent && styles.roundChipTextSelected]}>
+                          {round.name}{round.status === 'closed' ? ' · Closed' : ''}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+                {can('manage_rounds') && (
+                  <TouchableOpacity style={styles.roundChip} onPress={handleOpenNewRoundModal}>
+                    <Text style={styles.roundChipText}>+ New Round</Text>
+                  </TouchableOpacity>
+                )}
+              </ScrollView>
+              {can('manage_rounds') && group.current_round?.status === 'open' && hasAssignments && (
+                <TouchableOpacity onPress={handleCloseRound}>
+                  <Text style={styles.closeRoundText}>Close round</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {isMember && (
           <View style={styles.section}>
               <View style={styles.sectionHeader}>
                 <Text style={styles.sectionTitle}>Assignments</Text>
-        {isOwner && (
+        {can('assign') && (
                   <View style={styles.assignButtonContainer}>
                     {!hasAssignments && (() => {
-                      const totalMembers = group.members?.length || 0; // members array already includes owner
+                      const totalMembers = drawMembers.length; // members array already includes owner, unless managed
                       const pendingCount = group.pending_invitations?.length || 0;
                       
                       // Don't show button if less than 2 members (unless there are pending invitations - show disabled)
@@ -772,20 +2075,31 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                       
                       // Show button (disabled if pending invitations or less than 2 members)
                       return (
-                        <TouchableOpacity
-                          style={[
-                            styles.assignButton, 
-                            (assigning || pendingCount > 0 || totalMembers < 2) && styles.assignButtonDisabled
-                          ]}
-                          onPress={handleAssignSecretSanta}
-                          disabled={assigning || pendingCount > 0 || totalMembers < 2}
-                        >
-                          {assigning ? (
-                            <ActivityIndicator size="small" color="#fff" />
-                          ) : (
-                            <Text style={styles.assignButtonText}>Assign</Text>
+                        <>
+                          {!group.draw_schedule && (
+                            <TouchableOpacity
+                              style={[styles.scheduleButton, assigning && styles.assignButtonDisabled]}
+                              onPress={handleOpenScheduleModal}
+                              disabled={assigning}
+                            >
+                              <Text style={styles.scheduleButtonText}>Schedule</Text>
+                            </TouchableOpacity>
                           )}
-                        </TouchableOpacity>
+                          <TouchableOpacity
+                            style={[
+                              styles.assignButton, 
+                              (assigning || pendingCount > 0 || totalMembers < 2) && styles.assignButtonDisabled
+                            ]}
+                            onPress={handleAssignSecretSanta}
+                            disabled={assigning || pendingCount > 0 || totalMembers < 2}
+                          >
+                            {assigning ? (
+                              <ActivityIndicator size="small" color="#fff" />
+                            ) : (
+                              <Text style={styles.assignButtonText}>Assign</Text>
+                            )}
+                          </TouchableOpacity>
+                        </>
                       );
                     })()}
                   </View>
@@ -817,29 +2131,112 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                     <Text style={styles.viewGiftIdeasButtonText}>View Gift Ideas</Text>
                   </TouchableOpacity>
                 </View>
+              ) : managedPairings.length > 0 ? (
+                <View style={styles.managedResultsCard}>
+                  <View style={styles.managedResultsHeader}>
+                    <Text style={styles.managedResultsHint}>
+                      Send each participant their own link, or print a folded slip for everyone. A link shows who they're giving a gift to and works once.
+                    </Text>
+                    <View style={styles.managedResultsActions}>
+                      <TouchableOpacity onPress={() => setShowManagedPairings(!showManagedPairings)}>
+                        <Text style={styles.scheduledDrawActionText}>
+                          {showManagedPairings ? 'Hide results' : 'Show results'}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={handlePrintSlips} disabled={printingSlips}>
+                        <Text style={[styles.scheduledDrawActionText, printingSlips && styles.buttonDisabled]}>
+                          {printingSlips ? 'Preparing slips…' : 'Print slips'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                  {managedPairings.map((pairing) => {
+                    const revealedAt = group.members?.find(m => m.id === pairing.giver_id)?.revealed_at;
+                    return (
+                      <View key={pairing.giver_id} style={styles.managedPairingRow}>
+                        <View style={styles.managedPairingInfo}>
+                          <Text style={styles.managedPairingName}>
+                            {showManagedPairings
+                              ? `${pairing.giver_display_name} → ${pairing.receiver_display_name}`
+                              : pairing.giver_display_name}
+                          </Text>
+                          <Text style={styles.managedPairingStatus}>
+                            {revealedAt
+                              ? `Seen ${new Date(revealedAt).toLocaleDateString()}`
+                              : 'Not seen yet'}
+                          </Text>
+                        </View>
+                        <TouchableOpacity
+                          style={[styles.roleButton, sharingRevealFor !== null && styles.buttonDisabled]}
+                          onPress={() => handleShareRevealLink(pairing)}
+                          disabled={sharingRevealFor !== null}
+                        >
+                          {sharingRevealFor === pairing.giver_id ? (
+                            <ActivityIndicator size="small" color={colors.primary} />
+                          ) : (
+                            <Text style={styles.roleButtonText}>Send link</Text>
+                          )}
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })}
+                </View>
+              ) : group.draw_schedule ? (
+                <View style={styles.noAssignmentCard}>
+                  <Text style={styles.noAssignmentIcon}>⏰</Text>
+                  <Text style={styles.scheduledDrawLabel}>
+                    Draw scheduled for {new Date(group.draw_schedule.draw_at).toLocaleString('en-US', {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </Text>
+                  <Countdown
+                    drawAt={group.draw_schedule.draw_at}
+                    style={styles.scheduledDrawCountdown}
+                    onElapsed={() => loadGroup(false)}
+                  />
+                  <Text style={styles.noAssignmentText}>
+                    {(group.pending_invitations?.length || 0) > 0
+                      ? 'Pending invitations will expire when the draw runs. Everyone is notified of their assignment.'
+                      : 'Everyone is notified of their assignment when the draw runs.'}
+                  </Text>
+                  {can('assign') && (
+                    <View style={styles.scheduledDrawActions}>
+                      <TouchableOpacity onPress={handleOpenScheduleModal}>
+                        <Text style={styles.scheduledDrawActionText}>Change</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={handleCancelScheduledDraw}>
+                        <Text style={[styles.scheduledDrawActionText, styles.scheduledDrawCancelText]}>Cancel schedule</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
               ) : (
                 <View style={styles.noAssignmentCard}>
                   <Text style={styles.noAssignmentIcon}>🎁</Text>
                   <Text style={styles.noAssignmentText}>
                     {(() => {
-                      const totalMembers = group.members?.length || 0; // members array already includes owner
+                      const totalMembers = drawMembers.length; // members array already includes owner, unless managed
                       const pendingCount = group.pending_invitations?.length || 0;
                       
                       // Check pending invitations first (highest priority)
-                      if (isOwner && pendingCount > 0) {
-                        return 'Cannot assign while there are pending invitations.';
+                      if (can('assign') && pendingCount > 0) {
+                        return 'Cannot assign while there are pending invitations. Schedule the draw to expire them at a deadline.';
                       }
                       
                       // Then check member count
-                      if (isOwner && totalMembers < 2) {
+                      if (can('assign') && totalMembers < 2) {
                         return 'Add at least one more member to create Secret Santa assignments.';
                       }
                       
                       // Default messages
-                      if (isOwner) {
+                      if (can('assign')) {
                         return 'No assignments yet. Click "Assign" to create Secret Santa pairs.';
                       }
-                      return 'No assignments yet. The group owner needs to create assignments.';
+                      return 'No assignments yet. The group owner or an admin needs to create assignments.';
                     })()}
                   </Text>
                 </View>
@@ -859,9 +2256,9 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                 </TouchableOpacity>
               </View>
 
-              {giftIdeas.length > 0 ? (
+              {displayedGiftIdeas.length > 0 ? (
                 <View style={styles.giftIdeasList}>
-                  {giftIdeas.map((idea) => {
+                  {displayedGiftIdeas.map((idea) => {
                     return (
                       <View key={idea.id} style={styles.giftIdeaCard}>
                         <View style={styles.giftIdeaContent}>
@@ -888,6 +2285,11 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                                 <Text style={styles.giftIdeaMetaText}>
                                   For: {idea.for_user.display_name}
                                 </Text>
+                                {idea.syncStatus && (
+                                  <Text style={[styles.syncStatusText, idea.syncStatus === 'failed' && styles.syncStatusTextFailed]}>
+                                    {idea.syncStatus === 'failed' ? 'Sync failed' : 'Waiting to sync'}
+                                  </Text>
+                                )}
                               </View>
                             </View>
                             <View style={styles.giftIdeaActionButtons}>
@@ -899,7 +2301,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                               </TouchableOpacity>
                               <TouchableOpacity
                                 style={styles.giftIdeaButton}
-                                onPress={() => handleDeleteGiftIdea(idea.id)}
+                                onPress={() => handleDeleteGiftIdea(idea)}
                               >
                                 <Text style={styles.giftIdeaButtonText}>Delete</Text>
                               </TouchableOpacity>
@@ -925,7 +2327,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
           <View style={styles.section}>
               <View style={styles.sectionHeader}>
                 <Text style={styles.sectionTitle}>Members</Text>
-                {isOwner && !hasAssignments && (
+                {can('invite') && !hasAssignments && (
                   <TouchableOpacity
                     style={styles.inviteButton}
                     onPress={() => {
@@ -937,7 +2339,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                     <Text style={styles.inviteButtonText}>+ Invite</Text>
                   </TouchableOpacity>
                 )}
-                {isOwner && hasAssignments && (
+                {can('invite') && hasAssignments && (
                   <Text style={styles.disabledHint}>Undo assignments to edit members</Text>
                 )}
               </View>
@@ -964,18 +2366,73 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                             <Text style={styles.memberUsername}>{member.display_name}</Text>
                             {isMemberOwner && (
                               <View style={styles.ownerBadge}>
-                                <Text style={styles.ownerBadgeText}>Owner</Text>
+                                <Text style={styles.ownerBadgeText}>{group.is_managed ? 'Organizer' : 'Owner'}</Text>
+                              </View>
+                            )}
+                            {!isMemberOwner && member.role === 'admin' && (
+                              <View style={[styles.ownerBadge, styles.adminBadge]}>
+                                <Text style={styles.ownerBadgeText}>Admin</Text>
+                              </View>
+                            )}
+                            {group.pending_transfer?.to_user_id === member.id && (
+                              <View style={styles.pendingBadge}>
+                                <Text style={styles.pendingBadgeText}>Ownership offered</Text>
+                              </View>
+                            )}
+                            {member.is_placeholder && (
+                              <View style={styles.pendingBadge}>
+                                <Text style={styles.pendingBadgeText}>No account</Text>
                               </View>
                             )}
                           </View>
-                          <Text style={styles.memberUsernameSecondary}>@{member.username}</Text>
+                          {member.is_placeholder ? (
+                            (member.email || member.phone) && can('invite') && (
+                              <Text style={styles.memberUsernameSecondary}>
+                                {[member.email, member.phone].filter(Boolean).join(' · ')}
+                              </Text>
+                            )
+                          ) : (
+                            <Text style={styles.memberUsernameSecondary}>@{member.username}</Text>
+                          )}
+                          {findHousehold(group, member.id) && (
+                            <Text style={styles.memberDate}>{findHousehold(group, member.id)?.name}</Text>
+                          )}
                           </View>
                         </View>
                         <View style={styles.memberActions}>
-                          {isOwner && member.id !== userId && !isMemberOwner && !hasAssignments && (
+                          {member.is_placeholder && can('invite') && (
+                            <TouchableOpacity
+                              style={styles.roleButton}
+                              onPress={() => handleShareClaimLink(member)}
+                            >
+                              <Text style={styles.roleButtonText}>Claim link</Text>
+                            </TouchableOpacity>
+                          )}
+                          {can('manage_roles') && member.id !== userId && !isMemberOwner && !member.is_placeholder && (
+                            <TouchableOpacity
+                              style={styles.roleButton}
+                              onPress={() => handleToggleAdmin(member)}
+                            >
+                              <Text style={styles.roleButtonText}>
+                                {member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                              </Text>
+                            </TouchableOpacity>
+                          )}
+                          {can('transfer_ownership') && member.id !== userId && !member.is_placeholder && (
+                            group.pending_transfer?.to_user_id === member.id ? (
+                              <TouchableOpacity style={styles.roleButton} onPress={handleCancelOwnershipTransfer}>
+                                <Text style={styles.roleButtonText}>Cancel offer</Text>
+                              </TouchableOpacity>
+                            ) : !group.pending_transfer && (
+                              <TouchableOpacity style={styles.roleButton} onPress={() => handleOfferOwnership(member)}>
+                                <Text style={styles.roleButtonText}>Make owner</Text>
+                              </TouchableOpacity>
+                            )
+                          )}
+                          {canRemoveMember(group, userId, member.id) && !hasAssignments && (
                             <TouchableOpacity
                               style={styles.removeButton}
-                              onPress={() => handleRemoveMember(member.id, member.username)}
+                              onPress={() => handleRemoveMember(member.id, member.is_placeholder ? member.display_name : member.username)}
                             >
                               <Text style={styles.removeButtonText}>Remove</Text>
                             </TouchableOpacity>
@@ -1005,7 +2462,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                           </Text>
                         </View>
                       </View>
-                      {isOwner && !hasAssignments && (
+                      {can('cancel_invitation') && !hasAssignments && (
                         <TouchableOpacity
                           style={styles.removeButton}
                           onPress={() => handleCancelInvitation(invitation.invitation_id, invitation.username)}
@@ -1015,14 +2472,98 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                       )}
                     </View>
                   ))}
+                  {can('review_join_requests') && group.join_requests?.map((request) => (
+                    <View key={`request-${request.id}`} style={[styles.memberCard, styles.pendingInvitationCard]}>
+                      <View style={styles.memberCardContent}>
+                        {request.image_url ? (
+                          <Image source={{ uri: request.image_url }} style={styles.memberAvatar} />
+                        ) : (
+                          <View style={[styles.memberAvatar, styles.pendingMemberAvatar]}>
+                            <Text style={styles.memberAvatarText}>
+                              {request.display_name.charAt(0).toUpperCase()}
+                            </Text>
+                          </View>
+                        )}
+                        <View style={styles.memberInfo}>
+                          <View style={styles.memberNameRow}>
+                            <Text style={styles.memberUsername}>{request.display_name}</Text>
+                            <View style={styles.pendingBadge}>
+                              <Text style={styles.pendingBadgeText}>Wants to join</Text>
+                            </View>
+                          </View>
+                          <Text style={styles.memberUsernameSecondary}>@{request.username}</Text>
+                          <Text style={styles.memberDate}>
+                            Requested {new Date(request.requested_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                          </Text>
+                        </View>
+                      </View>
+                      <View style={styles.memberActions}>
+                        {reviewingJoinRequestId === request.id ? (
+                          <ActivityIndicator size="small" color={colors.primary} />
+                        ) : (
+                          <>
+                            {!hasAssignments && (
+                              <TouchableOpacity
+                                style={styles.roleButton}
+                                onPress={() => handleReviewJoinRequest(request, true)}
+                              >
+                                <Text style={styles.roleButtonText}>Approve</Text>
+                              </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                              style={styles.removeButton}
+                              onPress={() => handleReviewJoinRequest(request, false)}
+                            >
+                              <Text style={styles.removeButtonText}>Deny</Text>
+                            </TouchableOpacity>
+                          </>
+                        )}
+                      </View>
+                    </View>
+                  ))}
                 </View>
               ) : (
                 <Text style={styles.emptyText}>No members yet</Text>
               )}
+
+              {((group.households && group.households.length > 0) || (can('manage_households') && !hasAssignments)) && (
+                <View style={styles.householdsContainer}>
+                  <View style={styles.householdsHeader}>
+                    <Text style={styles.householdsTitle}>Households</Text>
+                    {can('manage_households') && !hasAssignments && (
+                      <TouchableOpacity onPress={() => handleOpenHouseholdModal()}>
+                        <Text style={styles.inviteButtonText}>+ Household</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {group.households && group.households.length > 0 ? (
+                    group.households.map((household) => (
+                      <TouchableOpacity
+                        key={household.id}
+                        style={styles.householdCard}
+                        onPress={() => handleOpenHouseholdModal(household)}
+                        disabled={!can('manage_households') || hasAssignments}
+                      >
+                        <Text style={styles.householdName}>{household.name}</Text>
+                        <Text style={styles.householdMembers}>
+                          {household.member_ids
+                            .map(id => group.members?.find(m => m.id === id)?.display_name)
+                            .filter(Boolean)
+                            .join(', ')}
+                        </Text>
+                      </TouchableOpacity>
+                    ))
+                  ) : (
+                    <Text style={styles.householdHint}>
+                      Group couples or families so they are never drawn for each other.
+                    </Text>
+                  )}
+                </View>
+              )}
             </View>
           )}
 
-          {isOwner && !hasAssignments && (
+          {can('manage_exclusions') && !hasAssignments && (
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
                 <Text style={styles.sectionTitle}>Exclusions</Text>
@@ -1031,10 +2572,10 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                   onPress={() => {
                     // Deduplicate members by ID
                     const membersMap = new Map<number, { id: number; display_name?: string; username: string }>();
-                    if (group.owner) {
+                    if (group.owner && !group.is_managed) {
                       membersMap.set(group.owner.id, group.owner);
                     }
-                    group.members?.forEach(member => {
+                    getParticipants(group).forEach(member => {
                       if (!membersMap.has(member.id)) {
                         membersMap.set(member.id, member);
                       }
@@ -1048,56 +2589,144 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                     
                     setSelectedMember1(null);
                     setSelectedMember2(null);
+                    setExclusionDirection('mutual');
                     setExclusionModalVisible(true);
                   }}
                 >
-                  <Text style={styles.addExclusionButtonText}>+ Add Pair</Text>
+                  <Text style={styles.addExclusionButtonText}>+ Add</Text>
                 </TouchableOpacity>
               </View>
               
-              {exclusions.length > 0 ? (
+              {displayedExclusions.length > 0 ? (
                 <View style={styles.exclusionsList}>
                   {(() => {
-                    // Group exclusions into pairs (only show one direction to avoid duplicates)
-                    const seenPairs = new Set<string>();
-                    const pairs: Array<{ id: number; member1: { id: number; name: string }; member2: { id: number; name: string } }> = [];
+                    // Group both directions between the same two members into one pair
+                    const pairs = new Map<string, { rows: OptimisticExclusion[]; giver: string; excluded: string }>();
                     
-                    exclusions.forEach((ex) => {
+                    displayedExclusions.forEach((ex) => {
                       const pairKey = [ex.giver_id, ex.excluded_user_id].sort().join('-');
-                      if (!seenPairs.has(pairKey)) {
-                        seenPairs.add(pairKey);
-                        pairs.push({
-                          id: ex.id,
-                          member1: {
-                            id: ex.giver_id,
-                            name: ex.giver_display_name || ex.giver_username,
-                          },
-                          member2: {
-                            id: ex.excluded_user_id,
-                            name: ex.excluded_display_name || ex.excluded_username,
-                          },
+                      const pair = pairs.get(pairKey);
+                      if (pair) {
+                        pair.rows.push(ex);
+                      } else {
+                        pairs.set(pairKey, {
+                          rows: [ex],
+                          giver: ex.giver_display_name || ex.giver_username,
+                          excluded: ex.excluded_display_name || ex.excluded_username,
                         });
                       }
                     });
                     
-                    return pairs.map((pair) => (
-                      <View key={pair.id} style={styles.exclusionPairCard}>
-                        <Text style={styles.exclusionPairText}>
-                          {pair.member1.name} ↔ {pair.member2.name}
-                        </Text>
-                        <TouchableOpacity
-                          style={styles.removeExclusionButton}
-                          onPress={() => handleRemoveExclusion(pair.id)}
-                        >
-                          <Text style={styles.removeExclusionButtonText}>Remove</Text>
-                        </TouchableOpacity>
-                      </View>
-                    ));
+                    return Array.from(pairs.values()).map((pair) => {
+                      const isMutual = pair.rows.length > 1;
+                      const syncStatus = pair.rows.some(ex => ex.syncStatus === 'failed')
+                        ? 'failed'
+                        : pair.rows.find(ex => ex.syncStatus)?.syncStatus;
+                      return (
+                        <View key={pair.rows[0].id} style={styles.exclusionPairCard}>
+                          <View style={styles.exclusionPairInfo}>
+                            <Text style={styles.exclusionPairText}>
+                              {pair.giver} {isMutual ? '↔' : '→'} {pair.excluded}
+                            </Text>
+                            <Text style={styles.exclusionPairDescription}>
+                              {isMutual ? 'Neither draws the other' : `${pair.giver} won't draw ${pair.excluded}`}
+                            </Text>
+                            {syncStatus && (
+                              <Text style={[styles.syncStatusText, syncStatus === 'failed' && styles.syncStatusTextFailed]}>
+                                {syncStatus === 'failed' ? 'Sync failed' : 'Waiting to sync'}
+                              </Text>
+                            )}
+                            {choosingOneWayFor === pair.rows[0].id && (
+                              <View style={styles.currencyChips}>
+                                {pair.rows.map((ex) => (
+                                  <TouchableOpacity
+                                    key={ex.id}
+                                    style={styles.roundChip}
+                                    onPress={() => handleMakeExclusionOneWay(pair.rows, ex)}
+                                  >
+                                    <Text style={styles.roundChipText}>
+                                      {ex.giver_display_name || ex.giver_username} won't draw {ex.excluded_display_name || ex.excluded_username}
+                                    </Text>
+                                  </TouchableOpacity>
+                                ))}
+                              </View>
+                            )}
+                          </View>
+                          <TouchableOpacity
+                            style={styles.removeExclusionButton}
+                            onPress={() => {
+                              if (!isMutual) {
+                                handleMakeExclusionMutual(pair.rows);
+                              } else {
+                                setChoosingOneWayFor(choosingOneWayFor === pair.rows[0].id ? null : pair.rows[0].id);
+                              }
+                            }}
+                          >
+                            <Text style={styles.toggleExclusionButtonText}>
+                              {!isMutual ? 'Make mutual' : choosingOneWayFor === pair.rows[0].id ? 'Cancel' : 'Make one-way'}
+                            </Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.removeExclusionButton}
+                            onPress={() => handleRemoveExclusionPair(pair.rows)}
+                          >
+                            <Text style={styles.removeExclusionButtonText}>Remove</Text>
+                          </TouchableOpacity>
+                        </View>
+                      );
+                    });
                   })()}
                 </View>
               ) : (
                 <Text style={styles.emptyText}>No exclusions set</Text>
               )}
+
+              {drawMembers.length >= 2 && !drawFeasibility.feasible && (
+                <View style={styles.drawWarning}>
+                  <Text style={styles.drawWarningTitle}>No valid draw possible</Text>
+                  <Text style={styles.drawWarningText}>{drawFeasibility.explanation}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {pendingChanges.length > 0 && group && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Pending Changes</Text>
+                <TouchableOpacity
+                  style={styles.addGiftIdeaButton}
+                  onPress={() => outbox.flush()}
+                >
+                  <Text style={styles.addGiftIdeaButtonText}>Sync now</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.pendingChangesList}>
+                {pendingChanges.map((entry) => (
+                  <View key={entry.id} style={styles.pendingChangeCard}>
+                    <Text style={styles.pendingChangeText}>{describeMutation(entry, group)}</Text>
+                    <Text style={[styles.syncStatusText, entry.status === 'failed' && styles.syncStatusTextFailed]}>
+                      {entry.status === 'failed' ? `Not saved: ${entry.error}` : 'Waiting to sync'}
+                    </Text>
+                    <View style={styles.pendingChangeActions}>
+                      {entry.status === 'failed' && (
+                        <TouchableOpacity
+                          style={styles.giftIdeaButton}
+                          onPress={() => outbox.retry(entry.id)}
+                        >
+                          <Text style={styles.giftIdeaButtonText}>Retry</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={styles.giftIdeaButton}
+                        onPress={() => handleDiscardPendingChange(entry)}
+                      >
+                        <Text style={styles.giftIdeaButtonText}>Discard</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+              </View>
             </View>
           )}
         </View>
@@ -1112,6 +2741,8 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
             setInviteModalVisible(false);
             setSearchQuery('');
             setSearchResults([]);
+            resetBulkInvite();
+            resetPlaceholderForm();
           }
         }}
       >
@@ -1136,14 +2767,123 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                       {inviteLinks.web}
                     </Text>
                   </View>
+                ) : inviteLink ? (
+                  <Text style={styles.inviteLinkStatus}>The invite link is turned off.</Text>
                 ) : null}
                 {inviteLinks && (
-                  <TouchableOpacity
-                    style={[commonStyles.button, styles.shareLinkButton]}
-                    onPress={handleShareInviteLink}
-                  >
-                    <Text style={commonStyles.buttonText}>Share Link</Text>
-                  </TouchableOpacity>
+                  <>
+                    <Text style={styles.inviteLinkStatus}>
+                      {inviteLink?.use_count ?? 0} joined
+                      {inviteLink?.max_uses != null ? ` of ${inviteLink.max_uses} allowed` : ''}
+                      {' · '}
+                      {inviteLink?.expires_at
+                        ? `${inviteLinkExpired ? 'Expired' : 'Expires'} ${new Date(inviteLink.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+                        : 'Never expires'}
+                    </Text>
+                    <TouchableOpacity
+                      style={[commonStyles.button, styles.shareLinkButton]}
+                      onPress={handleShareInviteLink}
+                    >
+                      <Text style={commonStyles.buttonText}>Share Link</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.qrCodeToggle} onPress={() => setShowQrCode(!showQrCode)}>
+                      <Text style={styles.scheduledDrawActionText}>
+                        {showQrCode ? 'Hide QR code' : 'Show QR code'}
+                      </Text>
+                    </TouchableOpacity>
+                    {showQrCode && (
+                      <View style={styles.qrCodeContainer}>
+                        <QrCode value={inviteLinks.web} size={220} />
+                        <Text style={styles.qrCodeHint}>Scan with a phone camera to join</Text>
+                        {inviteLink?.short_code && (
+                          <>
+                            <Text style={styles.qrCodeHint}>No camera? Use "Join with Code" and enter</Text>
+                            <Text style={styles.inviteCode} selectable>{formatInviteCode(inviteLink.short_code)}</Text>
+                          </>
+                        )}
+                      </View>
+                    )}
+
+                    <Text style={styles.inviteLinkOptionLabel}>Expires</Text>
+                    <View style={styles.currencyChips}>
+                      {INVITE_LINK_EXPIRY_OPTIONS.map((option) => {
+                        const selected = option.days === null && !inviteLink?.expires_at;
+                        return (
+                          <TouchableOpacity
+                            key={option.label}
+                            style={[styles.roundChip, selected && styles.roundChipSelected]}
+                            onPress={() => handleSetInviteLinkExpiry(option.days)}
+                            disabled={updatingInviteLink}
+                          >
+                            <Text style={[styles.roundChipText, selected && styles.roundChipTextSelected]}>
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                      {/* The other options set a new expiry counted from now */}
+                      {inviteLink?.expires_at && (
+                        <View style={[styles.roundChip, styles.roundChipSelected]}>
+                          <Text style={[styles.roundChipText, styles.roundChipTextSelected]}>
+                            {inviteLinkExpired ? 'Expired' : 'Until'} {new Date(inviteLink.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+
+                    <Text style={styles.inviteLinkOptionLabel}>Maximum uses</Text>
+                    <View style={styles.currencyChips}>
+                      {INVITE_LINK_MAX_USES_OPTIONS.map((maxUses) => {
+                        const selected = maxUses === (inviteLink?.max_uses ?? null);
+                        return (
+                          <TouchableOpacity
+                            key={maxUses ?? 'unlimited'}
+                            style={[styles.roundChip, selected && styles.roundChipSelected]}
+                            onPress={() => handleSetInviteLinkMaxUses(maxUses)}
+                            disabled={updatingInviteLink}
+                          >
+                            <Text style={[styles.roundChipText, selected && styles.roundChipTextSelected]}>
+                              {maxUses ?? 'Unlimited'}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={styles.inviteLinkOptionLabel}>Who can join</Text>
+                    <View style={styles.currencyChips}>
+                      {[false, true].map((requiresApproval) => {
+                        const selected = requiresApproval === (inviteLink?.requires_approval ?? false);
+                        return (
+                          <TouchableOpacity
+                            key={requiresApproval ? 'approval' : 'anyone'}
+                            style={[styles.roundChip, selected && styles.roundChipSelected]}
+                            onPress={() => handleSetInviteLinkApproval(requiresApproval)}
+                            disabled={updatingInviteLink}
+                          >
+                            <Text style={[styles.roundChipText, selected && styles.roundChipTextSelected]}>
+                              {requiresApproval ? 'Approval required' : 'Anyone with the link'}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </>
+                )}
+                {inviteLink && (
+                  <View style={styles.inviteLinkActions}>
+                    <TouchableOpacity onPress={handleRegenerateInviteLink} disabled={updatingInviteLink}>
+                      <Text style={styles.scheduledDrawActionText}>
+                        {inviteLinks ? 'New link' : 'Create link'}
+                      </Text>
+                    </TouchableOpacity>
+                    {inviteLinks && (
+                      <TouchableOpacity onPress={handleRevokeInviteLink} disabled={updatingInviteLink}>
+                        <Text style={[styles.scheduledDrawActionText, styles.scheduledDrawCancelText]}>Turn off</Text>
+                      </TouchableOpacity>
+                    )}
+                    {updatingInviteLink && <ActivityIndicator size="small" color={colors.primary} />}
+                  </View>
                 )}
               </View>
 
@@ -1194,6 +2934,145 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                 )}
               </View>
 
+              <View style={styles.divider} />
+
+              {/* Bulk Invite Section */}
+              <View style={styles.searchUserSection}>
+                <Text style={styles.searchUserSectionTitle}>Invite Several People</Text>
+                <Text style={styles.inviteLinkStatus}>
+                  Paste usernames, one per line or separated by commas, or a CSV with a "username" column.
+                </Text>
+                <TextInput
+                  style={[commonStyles.input, styles.descriptionInput]}
+                  placeholder={'alice\nbob\n@carol'}
+                  value={bulkInviteText}
+                  onChangeText={(text) => {
+                    setBulkInviteText(text);
+                    setBulkInviteRows(null);
+                  }}
+                  multiline={true}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!checkingBulkInvite && !sendingBulkInvite}
+                  placeholderTextColor={colors.textTertiary}
+                />
+                <View style={styles.inviteLinkActions}>
+                  {Platform.OS === 'web' && (
+                    <TouchableOpacity onPress={handleImportUsernameFile} disabled={checkingBulkInvite || sendingBulkInvite}>
+                      <Text style={styles.scheduledDrawActionText}>Import CSV</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    onPress={handleCheckBulkInvite}
+                    disabled={!bulkInviteText.trim() || checkingBulkInvite || sendingBulkInvite}
+                  >
+                    <Text style={styles.scheduledDrawActionText}>Check usernames</Text>
+                  </TouchableOpacity>
+                  {checkingBulkInvite && <ActivityIndicator size="small" color={colors.primary} />}
+                </View>
+
+                {bulkInviteRows && (
+                  <View style={styles.searchResultsContainer}>
+                    {bulkInviteRows.map((row) => (
+                      <View key={row.username} style={styles.searchResultItem}>
+                        <View style={styles.bulkInviteName}>
+                          <Text style={styles.searchResultUsername}>{row.user?.display_name ?? row.username}</Text>
+                          <Text style={styles.searchResultUsernameSecondary}>@{row.user?.username ?? row.username}</Text>
+                        </View>
+                        <Text style={[styles.bulkInviteStatus, bulkInviteStatusStyle(row.status)]}>
+                          {row.status === 'failed' && row.error ? row.error : BULK_INVITE_STATUS_LABELS[row.status]}
+                        </Text>
+                      </View>
+                    ))}
+                    <Text style={styles.inviteLinkStatus}>{bulkInviteSummary(bulkInviteRows)}</Text>
+                    {bulkInviteRows.some(row => row.status === 'ready') && (
+                      <TouchableOpacity
+                        style={[commonStyles.button, styles.shareLinkButton, sendingBulkInvite && styles.buttonDisabled]}
+                        onPress={handleSendBulkInvite}
+                        disabled={sendingBulkInvite}
+                      >
+                        {sendingBulkInvite ? (
+                          <ActivityIndicator color="#fff" />
+                        ) : (
+                          <Text style={commonStyles.buttonText}>
+                            Invite {bulkInviteRows.filter(row => row.status === 'ready').length} people
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.divider} />
+
+              {/* Placeholder Member Section */}
+              <View style={styles.searchUserSection}>
+                <Text style={styles.searchUserSectionTitle}>Add Someone Without the App</Text>
+                <Text style={styles.inviteLinkStatus}>
+                  They take part in the draw right away. Share their claim link if they sign up later.
+                </Text>
+                <TextInput
+                  style={[commonStyles.input, placeholderFieldErrors.display_name && styles.inputInvalid]}
+                  placeholder="Name"
+                  value={placeholderName}
+                  onChangeText={(text) => {
+                    setPlaceholderName(text);
+                    setPlaceholderFieldErrors(({ display_name, ...rest }) => rest);
+                  }}
+                  autoCapitalize="words"
+                  maxLength={PLACEHOLDER_NAME_MAX_LENGTH}
+                  editable={!addingPlaceholder}
+                  placeholderTextColor={colors.textTertiary}
+                />
+                {placeholderFieldErrors.display_name && (
+                  <Text style={styles.fieldErrorText}>{placeholderFieldErrors.display_name}</Text>
+                )}
+                <TextInput
+                  style={[commonStyles.input, placeholderFieldErrors.email && styles.inputInvalid]}
+                  placeholder="Email (optional)"
+                  value={placeholderEmail}
+                  onChangeText={(text) => {
+                    setPlaceholderEmail(text);
+                    setPlaceholderFieldErrors(({ email, ...rest }) => rest);
+                  }}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="email-address"
+                  editable={!addingPlaceholder}
+                  placeholderTextColor={colors.textTertiary}
+                />
+                {placeholderFieldErrors.email && (
+                  <Text style={styles.fieldErrorText}>{placeholderFieldErrors.email}</Text>
+                )}
+                <TextInput
+                  style={[commonStyles.input, placeholderFieldErrors.phone && styles.inputInvalid]}
+                  placeholder="Phone (optional)"
+                  value={placeholderPhone}
+                  onChangeText={(text) => {
+                    setPlaceholderPhone(text);
+                    setPlaceholderFieldErrors(({ phone, ...rest }) => rest);
+                  }}
+                  keyboardType="phone-pad"
+                  editable={!addingPlaceholder}
+                  placeholderTextColor={colors.textTertiary}
+                />
+                {placeholderFieldErrors.phone && (
+                  <Text style={styles.fieldErrorText}>{placeholderFieldErrors.phone}</Text>
+                )}
+                <TouchableOpacity
+                  style={[commonStyles.button, (addingPlaceholder || !placeholderName.trim()) && styles.buttonDisabled]}
+                  onPress={handleAddPlaceholder}
+                  disabled={addingPlaceholder || !placeholderName.trim()}
+                >
+                  {addingPlaceholder ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={commonStyles.buttonText}>Add to Group</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+
               <View style={styles.modalButtons}>
                 <TouchableOpacity
                   style={[commonStyles.button, styles.cancelButton]}
@@ -1201,6 +3080,8 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                     setInviteModalVisible(false);
                     setSearchQuery('');
                     setSearchResults([]);
+                    resetBulkInvite();
+                    resetPlaceholderForm();
                   }}
                   disabled={inviting}
                 >
@@ -1231,10 +3112,10 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
             style={styles.exclusionModalContent}
           >
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Add Exclusion Pair</Text>
+              <Text style={styles.modalTitle}>Add Exclusion</Text>
             </View>
             <Text style={styles.modalSubtitle}>
-              Select two members who should NOT be assigned to each other
+              Select two members, then choose who should NOT draw whom
             </Text>
 
             <ScrollView 
@@ -1246,12 +3127,39 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
               {/* Selected Pair Preview */}
               {selectedMember1 && selectedMember2 && (
                 <View style={styles.selectedPairPreview}>
-                  <Text style={styles.selectedPairLabel}>Selected Pair:</Text>
+                  <Text style={styles.selectedPairLabel}>Selected Members:</Text>
                   <View style={styles.selectedPairCard}>
                     <Text style={styles.selectedPairText}>
-                      {selectedMember1.name} ↔ {selectedMember2.name}
+                      {exclusionDirection === 'backward' ? selectedMember2.name : selectedMember1.name}
+                      {exclusionDirection === 'mutual' ? ' ↔ ' : ' → '}
+                      {exclusionDirection === 'backward' ? selectedMember1.name : selectedMember2.name}
                     </Text>
                   </View>
+                  <View style={styles.exclusionDirectionOptions}>
+                    {([
+                      ['mutual', 'Neither draws the other'],
+                      ['forward', `${selectedMember1.name} won't draw ${selectedMember2.name}`],
+                      ['backward', `${selectedMember2.name} won't draw ${selectedMember1.name}`],
+                    ] as const).map(([direction, label]) => (
+                      <TouchableOpacity
+                        key={direction}
+                        style={[
+                          styles.exclusionDirectionOption,
+                          exclusionDirection === direction && styles.exclusionDirectionOptionSelected,
+                        ]}
+                        onPress={() => setExclusionDirection(direction)}
+                      >
+                        <Text
+                          style={[
+                            styles.exclusionDirectionOptionText,
+                            exclusionDirection === direction && styles.exclusionDirectionOptionTextSelected,
+                          ]}
+                        >
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
                 </View>
               )}
 
@@ -1264,11 +3172,14 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
               ) : (() => {
                 // Build list of all members including owner
                 // Note: The owner might already be in the members list, so we deduplicate
-                const allMembers: Array<{ id: number; display_name?: string; username: string; image_url?: string | null }> = [];
+                const allMembers: Array<{ id: number; display_name?: string; username: string; image_url?: string | null; is_placeholder?: boolean }> = [];
                 const seenIds = new Set<number>();
                 
-                // Add owner first if it exists and is not already in members
-                if (group.owner) {
+                // The organizer of a managed group isn't part of the draw
+                if (group.is_managed) {
+                  seenIds.add(group.created_by);
+                } else if (group.owner) {
+                  // Add owner first if it exists and is not already in members
                   allMembers.push(group.owner);
                   seenIds.add(group.owner.id);
                 }
@@ -1320,16 +3231,24 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                       const isSelected2 = selectedMember2?.id === member.id;
                       const isSelected = isSelected1 || isSelected2;
                       
-                      // Check if this member is already in an exclusion pair with the other selected member
+                      // Check if this member is already excluded from the other selected member in both directions
                       let alreadyExcludedWith = false;
                       if (selectedMember1 && member.id !== selectedMember1.id) {
                         const pairKey1 = `${selectedMember1.id}-${member.id}`;
                         const pairKey2 = `${member.id}-${selectedMember1.id}`;
-                        alreadyExcludedWith = exclusions.some(
-                          ex => `${ex.giver_id}-${ex.excluded_user_id}` === pairKey1 || 
-                                `${ex.giver_id}-${ex.excluded_user_id}` === pairKey2
-                        );
+                        alreadyExcludedWith = [pairKey1, pairKey2].every(pairKey => drawConstraints.some(
+                          ex => `${ex.giver_id}-${ex.excluded_user_id}` === pairKey
+                        ));
                       }
+
+                      // Check if even a one-way exclusion with the selected member would leave no valid draw
+                      const blockingFeasibility = selectedMember1 && member.id !== selectedMember1.id && !alreadyExcludedWith
+                        ? checkDrawFeasibility(drawMembers, [
+                            ...drawConstraints,
+                            { giver_id: selectedMember1.id, excluded_user_id: member.id },
+                          ])
+                        : null;
+                      const wouldBlockDraw = !!blockingFeasibility && !blockingFeasibility.feasible;
                       
                       return (
                         <TouchableOpacity
@@ -1337,13 +3256,20 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                           style={[
                             styles.exclusionMemberCard,
                             isSelected && styles.exclusionMemberCardSelected,
-                            alreadyExcludedWith && styles.exclusionMemberCardExcluded,
+                            (alreadyExcludedWith || wouldBlockDraw) && styles.exclusionMemberCardExcluded,
                           ]}
                           onPress={() => {
                             if (alreadyExcludedWith) {
                               Alert.alert(
                                 'Already excluded',
-                                `${memberName} and ${selectedMember1?.name} are already in an exclusion pair.`
+                                `${memberName} and ${selectedMember1?.name} are already excluded from drawing each other.`
+                              );
+                              return;
+                            }
+                            if (wouldBlockDraw) {
+                              Alert.alert(
+                                'Draw would be impossible',
+                                `Excluding ${memberName} and ${selectedMember1?.name} would leave no valid draw. ${blockingFeasibility?.explanation}`
                               );
                               return;
                             }
@@ -1380,8 +3306,15 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                                     <Text style={styles.alreadyExcludedBadgeText}>Already excluded</Text>
                                   </View>
                                 )}
+                                {wouldBlockDraw && (
+                                  <View style={styles.alreadyExcludedBadge}>
+                                    <Text style={styles.alreadyExcludedBadgeText}>Would block draw</Text>
+                                  </View>
+                                )}
                               </View>
-                              <Text style={styles.exclusionMemberUsername}>@{member.username}</Text>
+                              {!member.is_placeholder && (
+                                <Text style={styles.exclusionMemberUsername}>@{member.username}</Text>
+                              )}
                             </View>
                           </View>
                         </TouchableOpacity>
@@ -1413,7 +3346,7 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                 onPress={handleConfirmExclusionPair}
                 disabled={!selectedMember1 || !selectedMember2}
               >
-                <Text style={commonStyles.buttonText}>Create Pair</Text>
+                <Text style={commonStyles.buttonText}>Add Exclusion</Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -1427,24 +3360,177 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
         transparent={true}
         onRequestClose={() => {
           if (detailsModalVisible) {
-            setDetailsModalVisible(false);
+            closeDetails();
           }
         }}
       >
-        <View style={commonStyles.modalOverlay}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={commonStyles.modalOverlay}
+        >
           <TouchableOpacity
             style={styles.modalOverlayTouchable}
             activeOpacity={1}
-            onPress={() => {
-              setDetailsModalVisible(false);
-            }}
+            onPress={closeDetails}
           />
           <View style={styles.detailsModalContent}>
             {group && (
-              <>
+              <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
                 <Text style={styles.detailsModalTitle}>{group.name}</Text>
                 
-                {userId !== null && userId === group.created_by && (
+                {can('edit_details') && (
+                  <>
+                    <View style={styles.detailsSection}>
+                      <Text style={styles.detailsLabel}>Name</Text>
+                      <TextInput
+                        style={[commonStyles.input, detailsFieldErrors.name && styles.inputInvalid]}
+                        placeholder="Group name"
+                        value={editingName}
+                        onChangeText={(text) => {
+                          setEditingName(text);
+                          setDetailsFieldErrors(({ name, ...rest }) => rest);
+                        }}
+                        autoCapitalize="words"
+                        maxLength={GROUP_NAME_MAX_LENGTH}
+                        editable={!savingDetails}
+                        placeholderTextColor={colors.textTertiary}
+                      />
+                      {detailsFieldErrors.name && (
+                        <Text style={styles.fieldErrorText}>{detailsFieldErrors.name}</Text>
+                      )}
+                    </View>
+
+                    <View style={styles.detailsSection}>
+                      <Text style={styles.detailsLabel}>Description <Text style={styles.optionalLabel}>(optional)</Text></Text>
+                      <TextInput
+                        style={[commonStyles.input, styles.descriptionInput, detailsFieldErrors.description && styles.inputInvalid]}
+                        placeholder="What is this group about?"
+                        value={editingDescription}
+                        onChangeText={(text) => {
+                          setEditingDescription(text);
+                          setDetailsFieldErrors(({ description, ...rest }) => rest);
+                        }}
+                        multiline={true}
+                        maxLength={GROUP_DESCRIPTION_MAX_LENGTH}
+                        editable={!savingDetails}
+                        placeholderTextColor={colors.textTertiary}
+                      />
+                      {detailsFieldErrors.description && (
+                        <Text style={styles.fieldErrorText}>{detailsFieldErrors.description}</Text>
+                      )}
+                    </View>
+
+                    <View style={styles.detailsSection}>
+                      <Text style={styles.detailsLabel}>Exchange Date <Text style={styles.optionalLabel}>(optional)</Text></Text>
+                      <View style={styles.eventInputRow}>
+                        <TextInput
+                          style={[commonStyles.input, styles.eventDateInput, detailsFieldErrors.event_date && styles.inputInvalid]}
+                          placeholder="YYYY-MM-DD"
+                          value={editingEventDate}
+                          onChangeText={(text) => {
+                            setEditingEventDate(text);
+                            setDetailsFieldErrors(({ event_date, ...rest }) => rest);
+                          }}
+                          keyboardType="numbers-and-punctuation"
+                          maxLength={10}
+                          editable={!savingDetails}
+                          placeholderTextColor={colors.textTertiary}
+                        />
+                        <TextInput
+                          style={[commonStyles.input, styles.eventTimeInput, detailsFieldErrors.event_time && styles.inputInvalid]}
+                          placeholder="HH:MM"
+                          value={editingEventTime}
+                          onChangeText={(text) => {
+                            setEditingEventTime(text);
+                            setDetailsFieldErrors(({ event_time, ...rest }) => rest);
+                          }}
+                          keyboardType="numbers-and-punctuation"
+                          maxLength={5}
+                          editable={!savingDetails}
+                          placeholderTextColor={colors.textTertiary}
+                        />
+                      </View>
+                      {(detailsFieldErrors.event_date || detailsFieldErrors.event_time) && (
+                        <Text style={styles.fieldErrorText}>
+                          {detailsFieldErrors.event_date || detailsFieldErrors.event_time}
+                        </Text>
+                      )}
+                    </View>
+
+                    <View style={styles.detailsSection}>
+                      <Text style={styles.detailsLabel}>Location <Text style={styles.optionalLabel}>(optional)</Text></Text>
+                      <TextInput
+                        style={[commonStyles.input, detailsFieldErrors.location && styles.inputInvalid]}
+                        placeholder="Where are gifts exchanged?"
+                        value={editingLocation}
+                        onChangeText={(text) => {
+                          setEditingLocation(text);
+                          setDetailsFieldErrors(({ location, ...rest }) => rest);
+                        }}
+                        maxLength={GROUP_LOCATION_MAX_LENGTH}
+                        editable={!savingDetails}
+                        placeholderTextColor={colors.textTertiary}
+                      />
+                      {detailsFieldErrors.location && (
+                        <Text style={styles.fieldErrorText}>{detailsFieldErrors.location}</Text>
+                      )}
+                    </View>
+
+                    <View style={styles.detailsSection}>
+                      <Text style={styles.detailsLabel}>Spending Limit <Text style={styles.optionalLabel}>(optional)</Text></Text>
+                      <TextInput
+                        style={[commonStyles.input, detailsFieldErrors.budget && styles.inputInvalid]}
+                        placeholder="e.g. 30"
+                        value={editingBudget}
+                        onChangeText={(text) => {
+                          setEditingBudget(text);
+                          setDetailsFieldErrors(({ budget, ...rest }) => rest);
+                        }}
+                        keyboardType="decimal-pad"
+                        editable={!savingDetails}
+                        placeholderTextColor={colors.textTertiary}
+                      />
+                      <View style={styles.currencyChips}>
+                        {CURRENCIES.map((currency) => (
+                          <TouchableOpacity
+                            key={currency}
+                            style={[styles.roundChip, editingCurrency === currency && styles.roundChipSelected]}
+                            onPress={() => setEditingCurrency(currency)}
+                            disabled={savingDetails}
+                          >
+                            <Text style={[styles.roundChipText, editingCurrency === currency && styles.roundChipTextSelected]}>
+                              {currency}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      {(detailsFieldErrors.budget || detailsFieldErrors.currency) && (
+                        <Text style={styles.fieldErrorText}>
+                          {detailsFieldErrors.budget || detailsFieldErrors.currency}
+                        </Text>
+                      )}
+                    </View>
+
+                    <View style={styles.detailsSection}>
+                      <Text style={styles.detailsLabel}>Rules <Text style={styles.optionalLabel}>(optional)</Text></Text>
+                      <TextInput
+                        style={[commonStyles.input, styles.descriptionInput, detailsFieldErrors.rules && styles.inputInvalid]}
+                        placeholder="e.g. Homemade gifts welcome, no gift cards"
+                        value={editingRules}
+                        onChangeText={(text) => {
+                          setEditingRules(text);
+                          setDetailsFieldErrors(({ rules, ...rest }) => rest);
+                        }}
+                        multiline={true}
+                        maxLength={GROUP_RULES_MAX_LENGTH}
+                        editable={!savingDetails}
+                        placeholderTextColor={colors.textTertiary}
+                      />
+                      {detailsFieldErrors.rules && (
+                        <Text style={styles.fieldErrorText}>{detailsFieldErrors.rules}</Text>
+                      )}
+                    </View>
+
                   <View style={styles.detailsSection}>
                     <Text style={styles.detailsLabel}>Group Image</Text>
                     {editingImage !== null && editingImage !== '' ? (
@@ -1457,31 +3543,18 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                           <TouchableOpacity
                             style={styles.imageActionButton}
                             onPress={handlePickImage}
-                            disabled={updatingImage}
+                            disabled={savingDetails}
                           >
                             <Text style={styles.imageActionButtonText}>Change</Text>
                           </TouchableOpacity>
                           <TouchableOpacity
                             style={[styles.imageActionButton, styles.removeImageButton]}
                             onPress={handleRemoveImage}
-                            disabled={updatingImage}
+                            disabled={savingDetails}
                           >
                             <Text style={styles.imageActionButtonText}>Remove</Text>
                           </TouchableOpacity>
                         </View>
-                        {(editingImage !== (group.image_url || null)) && (
-                          <TouchableOpacity
-                            style={[commonStyles.button, styles.saveImageButton]}
-                            onPress={handleSaveImage}
-                            disabled={updatingImage}
-                          >
-                            {updatingImage ? (
-                              <ActivityIndicator color="#fff" />
-                            ) : (
-                              <Text style={styles.saveImageButtonText}>Save Image</Text>
-                            )}
-                          </TouchableOpacity>
-                        )}
                       </View>
                     ) : editingImage === '' ? (
                       <View style={styles.imagePreviewContainer}>
@@ -1492,22 +3565,11 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                           <TouchableOpacity
                             style={styles.imageActionButton}
                             onPress={handlePickImage}
-                            disabled={updatingImage}
+                            disabled={savingDetails}
                           >
                             <Text style={styles.imageActionButtonText}>Choose Image</Text>
                           </TouchableOpacity>
                         </View>
-                        <TouchableOpacity
-                          style={[commonStyles.button, styles.saveImageButton]}
-                          onPress={handleSaveImage}
-                          disabled={updatingImage}
-                        >
-                          {updatingImage ? (
-                            <ActivityIndicator color="#fff" />
-                          ) : (
-                            <Text style={styles.saveImageButtonText}>Save Changes</Text>
-                          )}
-                        </TouchableOpacity>
                       </View>
                     ) : group.image_url ? (
                       <View style={styles.imagePreviewContainer}>
@@ -1519,14 +3581,14 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                           <TouchableOpacity
                             style={styles.imageActionButton}
                             onPress={handlePickImage}
-                            disabled={updatingImage}
+                            disabled={savingDetails}
                           >
                             <Text style={styles.imageActionButtonText}>Change</Text>
                           </TouchableOpacity>
                           <TouchableOpacity
                             style={[styles.imageActionButton, styles.removeImageButton]}
                             onPress={handleRemoveImage}
-                            disabled={updatingImage}
+                            disabled={savingDetails}
                           >
                             <Text style={styles.imageActionButtonText}>Remove</Text>
                           </TouchableOpacity>
@@ -1536,15 +3598,30 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
                       <TouchableOpacity
                         style={styles.imagePickerButton}
                         onPress={handlePickImage}
-                        disabled={updatingImage}
+                        disabled={savingDetails}
                       >
                         <Text style={styles.imagePickerButtonText}>📷 Choose Image</Text>
                       </TouchableOpacity>
                     )}
                   </View>
+
+                    {detailsChanged && (
+                      <TouchableOpacity
+                        style={[commonStyles.button, styles.saveImageButton, styles.saveDetailsButton, savingDetails && styles.buttonDisabled]}
+                        onPress={handleSaveDetails}
+                        disabled={savingDetails}
+                      >
+                        {savingDetails ? (
+                          <ActivityIndicator color="#fff" />
+                        ) : (
+                          <Text style={styles.saveImageButtonText}>Save Changes</Text>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                  </>
                 )}
                 
-                {group.description && (
+                {group.description && !can('edit_details') && (
                   <View style={styles.detailsSection}>
                     <Text style={styles.detailsLabel}>Description</Text>
                     <Text style={styles.detailsValue}>{group.description}</Text>
@@ -1582,134 +3659,574 @@ export default function GroupDetailScreen({ groupId, onBack }: GroupDetailScreen
             </View>
           )}
 
-                {userId !== null && userId === group.created_by && (
-                  <>
-                    {hasAssignments && (
-                      <View style={styles.detailsActions}>
+                {getRole(group, userId) === 'admin' && (
+                  <View style={styles.detailsSection}>
+                    <View style={styles.badgeContainer}>
+                      <Text style={styles.badgeText}>You are an admin</Text>
+                    </View>
+                  </View>
+                )}
+
+                {can('delete_assignments') && hasAssignments && (
+                  <View style={styles.detailsActions}>
+                    <TouchableOpacity
+                      style={[commonStyles.button, styles.undoButtonInModal, deletingAssignments && styles.buttonDisabled]}
+                      onPress={handleDeleteAssignments}
+                      disabled={deletingAssignments}
+                    >
+                      {deletingAssignments ? (
+                        <ActivityIndicator color="#fff" />
+                      ) : (
+                        <Text style={commonStyles.buttonText}>Undo Assignments</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {isOwner && (
+                  <Text style={styles.leaveHint}>
+                    To leave the group, make another member the owner from the Members list.
+                  </Text>
+                )}
+
+                {can('delete_group') && (
+                  <View style={styles.detailsActions}>
+                    <TouchableOpacity
+                      style={styles.deleteButtonInModal}
+                      onPress={handleDelete}
+                      disabled={deleting}
+                    >
+                      {deleting ? (
+                        <ActivityIndicator color="#fff" />
+                      ) : (
+                        <Text style={styles.deleteButtonTextInModal}>Delete Group</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {userId !== null && userId !== group.created_by && isMember && (
+                  <View style={styles.detailsActions}>
+                    <TouchableOpacity
+                      style={[commonStyles.button, styles.leaveButtonInModal, deleting && styles.buttonDisabled]}
+                      onPress={handleLeaveGroup}
+                      disabled={deleting}
+                    >
+                      {deleting ? (
+                        <ActivityIndicator color="#fff" />
+                      ) : (
+                        <Text style={commonStyles.buttonText}>Leave Group</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                <TouchableOpacity
+                  style={[commonStyles.button, styles.cancelButton]}
+                  onPress={closeDetails}
+                >
+                  <Text style={styles.cancelButtonText}>Close</Text>
+                </TouchableOpacity>
+              </ScrollView>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Assigned Person Gift Ideas Modal */}
+      <Modal
+        visible={assignedPersonGiftIdeasModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => {
+          if (assignedPersonGiftIdeasModalVisible) {
+            setAssignedPersonGiftIdeasModalVisible(false);
+          }
+        }}
+      >
+        <View style={commonStyles.modalOverlay}>
+          <View style={commonStyles.modalContent}>
+            <Text style={styles.modalTitle}>
+              Gift Ideas for {assignment?.receiver_display_name}
+            </Text>
+
+            {loadingAssignedPersonGiftIdeas ? (
+              <View style={styles.modalLoadingContainer}>
+                <ActivityIndicator size="large" color={colors.primary} />
+              </View>
+            ) : assignedPersonGiftIdeas.length > 0 ? (
+              <ScrollView style={styles.assignedPersonGiftIdeasList}>
+                {assignedPersonGiftIdeas.map((idea) => (
+                  <View key={idea.id} style={styles.assignedPersonGiftIdeaCard}>
+                    <Text style={styles.assignedPersonGiftIdeaText}>{idea.idea}</Text>
+                    {idea.link && (
+                      <TouchableOpacity
+                        style={styles.assignedPersonGiftIdeaLink}
+                        onPress={() => {
+                          const url = idea.link!.startsWith('http://') || idea.link!.startsWith('https://')
+                            ? idea.link!
+                            : `https://${idea.link!}`;
+                          Linking.openURL(url).catch((err) => {
+                            console.error('Failed to open URL:', err);
+                            Alert.alert('Error', 'Could not open link');
+                          });
+                        }}
+                      >
+                        <Text style={styles.assignedPersonGiftIdeaLinkText}>🔗 Open Link</Text>
+                      </TouchableOpacity>
+                    )}
+                    <Text style={styles.assignedPersonGiftIdeaCreator}>
+                      By: {idea.created_by.display_name}
+                    </Text>
+                    <View style={styles.giftIdeaReservationRow}>
+                      {idea.is_reserved && (
+                        <View style={styles.pendingBadge}>
+                          <Text style={styles.pendingBadgeText}>
+                            {idea.reserved_by_me ? 'Reserved by you' : 'Reserved by someone'}
+                          </Text>
+                        </View>
+                      )}
+                      {(!idea.is_reserved || idea.reserved_by_me) && (
                         <TouchableOpacity
-                          style={[commonStyles.button, styles.undoButtonInModal, deletingAssignments && styles.buttonDisabled]}
-                          onPress={handleDeleteAssignments}
-                          disabled={deletingAssignments}
+                          style={[styles.roleButton, reservingGiftIdeaId !== null && styles.buttonDisabled]}
+                          onPress={() => handleToggleGiftIdeaReservation(idea)}
+                          disabled={reservingGiftIdeaId !== null}
                         >
-                          {deletingAssignments ? (
-                            <ActivityIndicator color="#fff" />
+                          {reservingGiftIdeaId === idea.id ? (
+                            <ActivityIndicator size="small" color={colors.primary} />
                           ) : (
-                            <Text style={commonStyles.buttonText}>Undo Assignments</Text>
+                            <Text style={styles.roleButtonText}>
+                              {idea.reserved_by_me ? 'Release' : "I'll buy this"}
+                            </Text>
                           )}
                         </TouchableOpacity>
-        </View>
-                    )}
-                    <View style={styles.detailsActions}>
-                      <TouchableOpacity
-                        style={styles.deleteButtonInModal}
-                        onPress={handleDelete}
-                        disabled={deleting}
-                      >
-                        {deleting ? (
-                          <ActivityIndicator color="#fff" />
-                        ) : (
-                          <Text style={styles.deleteButtonTextInModal}>Delete Group</Text>
-                        )}
-                      </TouchableOpacity>
+                      )}
                     </View>
-                  </>
+                  </View>
+                ))}
+      </ScrollView>
+            ) : (
+              <View style={styles.modalEmptyContainer}>
+                <Text style={styles.modalEmptyText}>
+                  No gift ideas yet for {assignment?.receiver_display_name}
+                </Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[commonStyles.button, styles.closeModalButton]}
+              onPress={() => setAssignedPersonGiftIdeasModalVisible(false)}
+            >
+              <Text style={commonStyles.buttonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* New Round Modal */}
+      <Modal
+        visible={newRoundModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setNewRoundModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={commonStyles.modalOverlay}
+        >
+          <View style={commonStyles.modalContent}>
+            <Text style={styles.modalTitle}>New Round</Text>
+            <Text style={styles.modalSubtitle}>
+              {group?.current_round?.status === 'open'
+                ? `"${group.current_round.name}" will be closed and its draw revealed in the round history. `
+                : ''}
+              Members, households and exclusions carry over; assignments and gift ideas start fresh.
+            </Text>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={commonStyles.input}
+                placeholder="e.g. Christmas 2026"
+                value={newRoundName}
+                onChangeText={setNewRoundName}
+                autoFocus={true}
+                placeholderTextColor={colors.textTertiary}
+              />
+            </View>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[commonStyles.button, styles.cancelButton]}
+                onPress={() => setNewRoundModalVisible(false)}
+                disabled={savingRound}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[commonStyles.button, savingRound && styles.buttonDisabled]}
+                onPress={handleCreateRound}
+                disabled={savingRound || !newRoundName.trim()}
+              >
+                {savingRound ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={commonStyles.buttonText}>Start Round</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Schedule Draw Modal */}
+      <Modal
+        visible={scheduleModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setScheduleModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={commonStyles.modalOverlay}
+        >
+          <View style={commonStyles.modalContent}>
+            <Text style={styles.modalTitle}>Schedule Draw</Text>
+            <Text style={styles.modalSubtitle}>
+              At this time, pending invitations expire and everyone is assigned someone with the exclusions
+              set then. Members get a notification.
+            </Text>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Date and Time</Text>
+              <View style={styles.eventInputRow}>
+                <TextInput
+                  style={[commonStyles.input, styles.eventDateInput]}
+                  placeholder="YYYY-MM-DD"
+                  value={scheduleDate}
+                  onChangeText={setScheduleDate}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={10}
+                  placeholderTextColor={colors.textTertiary}
+                />
+                <TextInput
+                  style={[commonStyles.input, styles.eventTimeInput]}
+                  placeholder="HH:MM"
+                  value={scheduleTime}
+                  onChangeText={setScheduleTime}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                  placeholderTextColor={colors.textTertiary}
+                />
+              </View>
+            </View>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[commonStyles.button, styles.cancelButton]}
+                onPress={() => setScheduleModalVisible(false)}
+                disabled={savingSchedule}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[commonStyles.button, savingSchedule && styles.buttonDisabled]}
+                onPress={handleScheduleDraw}
+                disabled={savingSchedule}
+              >
+                {savingSchedule ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={commonStyles.buttonText}>Schedule</Text>
                 )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Round History Modal */}
+      <Modal
+        visible={viewingRound !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setViewingRound(null)}
+      >
+        <View style={commonStyles.modalOverlay}>
+          <View style={styles.exclusionModalContent}>
+            {viewingRound && (
+              <>
+                <View style={styles.modalHeader}>
+                  <Text style={styles.modalTitle}>{viewingRound.name}</Text>
+                  <TouchableOpacity style={styles.modalCloseButton} onPress={() => setViewingRound(null)}>
+                    <Text style={styles.modalCloseButtonText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.modalSubtitle}>
+                  {viewingRound.closed_at
+                    ? `Closed ${new Date(viewingRound.closed_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+                    : 'Open'}
+                  {' · '}
+                  {viewingRound.members.length} members
+                </Text>
+
+                <ScrollView style={styles.exclusionModalScroll}>
+                  <Text style={styles.roundHistoryHeading}>Who gave to whom</Text>
+                  {viewingRound.status === 'closed' && viewingRoundPairings.length > 0 ? (
+                    viewingRoundPairings.map((pairing) => (
+                      <Text key={pairing.giver_id} style={styles.roundHistoryRow}>
+                        {pairing.giver_display_name} → {pairing.receiver_display_name}
+                      </Text>
+                    ))
+                  ) : (
+                    <Text style={styles.emptyTextSecondary}>
+                      {viewingRound.status === 'closed'
+                        ? 'No draw was made in this round.'
+                        : 'The draw is revealed once the round is closed.'}
+                    </Text>
+                  )}
+
+                  <Text style={styles.roundHistoryHeading}>Members</Text>
+                  <Text style={styles.roundHistoryRow}>
+                    {viewingRound.members.map(m => m.display_name).join(', ')}
+                  </Text>
+
+                  {viewingRound.exclusions.length > 0 && (
+                    <>
+                      <Text style={styles.roundHistoryHeading}>Exclusions</Text>
+                      {viewingRound.exclusions.map((ex) => (
+                        <Text key={ex.id} style={styles.roundHistoryRow}>
+                          {ex.giver_display_name} → {ex.excluded_display_name}
+                        </Text>
+                      ))}
+                    </>
+                  )}
+
+                  {viewingRoundGiftIdeas.length > 0 && (
+                    <>
+                      <Text style={styles.roundHistoryHeading}>Gift Ideas</Text>
+                      {viewingRoundGiftIdeas.map((idea) => (
+                        <Text key={idea.id} style={styles.roundHistoryRow}>
+                          {idea.idea} <Text style={styles.giftIdeaMetaText}>for {idea.for_user.display_name}</Text>
+                        </Text>
+                      ))}
+                    </>
+                  )}
+                </ScrollView>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Assign Modal */}
+      <Modal
+        visible={assignModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setAssignModalVisible(false)}
+      >
+        <View style={commonStyles.modalOverlay}>
+          <View style={commonStyles.modalContent}>
+            <Text style={styles.modalTitle}>Assign Secret Santa</Text>
+            <Text style={styles.modalSubtitle}>
+              This will randomly assign each member to another member.
+            </Text>
+
+            <Text style={styles.inputLabel}>Avoid pairings from previous draws</Text>
+            <View style={styles.roundStepper}>
+              <TouchableOpacity
+                style={[styles.roundStepperButton, avoidPreviousRounds === 0 && styles.buttonDisabled]}
+                onPress={() => setAvoidPreviousRounds(prev => Math.max(0, prev - 1))}
+                disabled={avoidPreviousRounds === 0}
+              >
+                <Text style={styles.roundStepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.roundStepperValue}>
+                {avoidPreviousRounds === 0
+                  ? 'Allow repeats'
+                  : avoidPreviousRounds === 1
+                    ? 'Last draw'
+                    : `Last ${avoidPreviousRounds} draws`}
+              </Text>
+              <TouchableOpacity
+                style={[styles.roundStepperButton, avoidPreviousRounds >= drawHistory.length && styles.buttonDisabled]}
+                onPress={() => setAvoidPreviousRounds(prev => Math.min(drawHistory.length, prev + 1))}
+                disabled={avoidPreviousRounds >= drawHistory.length}
+              >
+                <Text style={styles.roundStepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
 
-                {userId !== null && userId !== group.created_by && isMember && (
-                  <View style={styles.detailsActions}>
-                    <TouchableOpacity
-                      style={[commonStyles.button, styles.leaveButtonInModal, deleting && styles.buttonDisabled]}
-                      onPress={handleLeaveGroup}
-                      disabled={deleting}
+            {avoidPreviousRounds > 0 && (
+              <View style={styles.exclusionDirectionOptions}>
+                {([
+                  ['hard', 'Never repeat a pairing'],
+                  ['soft', 'Avoid repeats where possible'],
+                ] as const).map(([mode, label]) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.exclusionDirectionOption,
+                      historyMode === mode && styles.exclusionDirectionOptionSelected,
+                    ]}
+                    onPress={() => setHistoryMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.exclusionDirectionOptionText,
+                        historyMode === mode && styles.exclusionDirectionOptionTextSelected,
+                      ]}
                     >
-                      {deleting ? (
-                        <ActivityIndicator color="#fff" />
-                      ) : (
-                        <Text style={commonStyles.buttonText}>Leave Group</Text>
-                      )}
-                    </TouchableOpacity>
-                  </View>
-                )}
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
 
-                <TouchableOpacity
-                  style={[commonStyles.button, styles.cancelButton]}
-                  onPress={() => {
-                    setEditingImage(null);
-                    setDetailsModalVisible(false);
-                  }}
-                >
-                  <Text style={styles.cancelButtonText}>Close</Text>
-                </TouchableOpacity>
-              </>
+            {avoidPreviousRounds > 0 && !historyFeasibility.feasible && (
+              <View style={styles.drawWarning}>
+                <Text style={styles.drawWarningTitle}>
+                  {historyMode === 'hard' ? 'No valid draw possible' : 'Some pairings will repeat'}
+                </Text>
+                <Text style={styles.drawWarningText}>
+                  {historyFeasibility.explanation}{' '}
+                  {historyMode === 'hard'
+                    ? 'Avoid fewer draws or only avoid repeats where possible.'
+                    : 'Repeats are kept to a minimum.'}
+                </Text>
+              </View>
             )}
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[commonStyles.button, styles.cancelButton]}
+                onPress={() => setAssignModalVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  commonStyles.button,
+                  avoidPreviousRounds > 0 && historyMode === 'hard' && !historyFeasibility.feasible && styles.buttonDisabled,
+                ]}
+                onPress={handleConfirmAssign}
+                disabled={avoidPreviousRounds > 0 && historyMode === 'hard' && !historyFeasibility.feasible}
+              >
+                <Text style={commonStyles.buttonText}>Assign</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
       </Modal>
 
-      {/* Assigned Person Gift Ideas Modal */}
+      {/* Household Modal */}
       <Modal
-        visible={assignedPersonGiftIdeasModalVisible}
+        visible={householdModalVisible}
         animationType="slide"
         transparent={true}
         onRequestClose={() => {
-          if (assignedPersonGiftIdeasModalVisible) {
-            setAssignedPersonGiftIdeasModalVisible(false);
+          if (householdModalVisible) {
+            handleCloseHouseholdModal();
           }
         }}
       >
-        <View style={commonStyles.modalOverlay}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={commonStyles.modalOverlay}
+        >
           <View style={commonStyles.modalContent}>
             <Text style={styles.modalTitle}>
-              Gift Ideas for {assignment?.receiver_display_name}
+              {editingHousehold ? 'Edit Household' : 'New Household'}
+            </Text>
+            <Text style={styles.modalSubtitle}>
+              Members of a household are never drawn for each other
             </Text>
 
-            {loadingAssignedPersonGiftIdeas ? (
-              <View style={styles.modalLoadingContainer}>
-                <ActivityIndicator size="large" color={colors.primary} />
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Name</Text>
+                <TextInput
+                  style={commonStyles.input}
+                  placeholder="e.g. The Müllers"
+                  value={householdName}
+                  onChangeText={setHouseholdName}
+                  placeholderTextColor={colors.textTertiary}
+                />
               </View>
-            ) : assignedPersonGiftIdeas.length > 0 ? (
-              <ScrollView style={styles.assignedPersonGiftIdeasList}>
-                {assignedPersonGiftIdeas.map((idea) => (
-                  <View key={idea.id} style={styles.assignedPersonGiftIdeaCard}>
-                    <Text style={styles.assignedPersonGiftIdeaText}>{idea.idea}</Text>
-                    {idea.link && (
-                      <TouchableOpacity
-                        style={styles.assignedPersonGiftIdeaLink}
-                        onPress={() => {
-                          const url = idea.link!.startsWith('http://') || idea.link!.startsWith('https://')
-                            ? idea.link!
-                            : `https://${idea.link!}`;
-                          Linking.openURL(url).catch((err) => {
-                            console.error('Failed to open URL:', err);
-                            Alert.alert('Error', 'Could not open link');
-                          });
-                        }}
-                      >
-                        <Text style={styles.assignedPersonGiftIdeaLinkText}>🔗 Open Link</Text>
-                      </TouchableOpacity>
-                    )}
-                    <Text style={styles.assignedPersonGiftIdeaCreator}>
-                      By: {idea.created_by.display_name}
-                    </Text>
+
+              <View style={styles.giftIdeaPersonSelector}>
+                <Text style={styles.giftIdeaLabel}>Members:</Text>
+                {group && group.members && (
+                  <View style={styles.memberSelector}>
+                    {group.members.map((member) => {
+                      const isSelected = householdMemberIds.includes(member.id);
+                      // A member can only belong to one household
+                      const otherHousehold = findHousehold(group, member.id);
+                      const inOtherHousehold = !!otherHousehold && otherHousehold.id !== editingHousehold?.id;
+                      return (
+                        <TouchableOpacity
+                          key={member.id}
+                          style={[
+                            styles.memberSelectorOption,
+                            isSelected && styles.memberSelectorOptionSelected,
+                            inOtherHousehold && styles.buttonDisabled,
+                          ]}
+                          onPress={() => handleToggleHouseholdMember(member.id)}
+                          disabled={inOtherHousehold}
+                        >
+                          <Text
+                            style={[
+                              styles.memberSelectorOptionText,
+                              isSelected && styles.memberSelectorOptionTextSelected,
+                            ]}
+                          >
+                            {member.display_name}
+                            {inOtherHousehold ? ` (${otherHousehold?.name})` : ''}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
                   </View>
-                ))}
-      </ScrollView>
-            ) : (
-              <View style={styles.modalEmptyContainer}>
-                <Text style={styles.modalEmptyText}>
-                  No gift ideas yet for {assignment?.receiver_display_name}
-                </Text>
+                )}
               </View>
-            )}
 
-            <TouchableOpacity
-              style={[commonStyles.button, styles.closeModalButton]}
-              onPress={() => setAssignedPersonGiftIdeasModalVisible(false)}
-            >
-              <Text style={commonStyles.buttonText}>Close</Text>
-            </TouchableOpacity>
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[commonStyles.button, styles.cancelButton]}
+                  onPress={handleCloseHouseholdModal}
+                  disabled={savingHousehold}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[commonStyles.button, savingHousehold && styles.buttonDisabled]}
+                  onPress={handleSaveHousehold}
+                  disabled={savingHousehold || !householdName.trim() || householdMemberIds.length < 2}
+                >
+                  {savingHousehold ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={commonStyles.buttonText}>
+                      {editingHousehold ? 'Update' : 'Create'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+
+              {editingHousehold && (
+                <TouchableOpacity
+                  style={styles.deleteHouseholdButton}
+                  onPress={handleDeleteHousehold}
+                  disabled={savingHousehold}
+                >
+                  <Text style={styles.removeExclusionButtonText}>Delete Household</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
           </View>
-        </View>
+        </KeyboardAvoidingView>
       </Modal>
 
       {/* Gift Idea Modal */}
@@ -1892,6 +4409,7 @@ const styles = StyleSheet.create({
     padding: spacing.xxl,
     width: '90%',
     maxWidth: 400,
+    maxHeight: '85%',
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
@@ -1944,6 +4462,37 @@ const styles = StyleSheet.create({
   saveImageButton: {
     marginTop: spacing.sm,
   },
+  saveDetailsButton: {
+    marginBottom: spacing.xl,
+  },
+  descriptionInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  inputInvalid: {
+    borderColor: colors.danger,
+  },
+  eventInputRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  eventDateInput: {
+    flex: 2,
+  },
+  eventTimeInput: {
+    flex: 1,
+  },
+  currencyChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  fieldErrorText: {
+    ...typography.caption,
+    color: colors.danger,
+    marginTop: spacing.xs,
+  },
   saveImageButtonText: {
     ...typography.body,
     color: '#fff',
@@ -2018,6 +4567,47 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: colors.border,
   },
+  eventCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: spacing.lg,
+    marginBottom: spacing.xl,
+    gap: spacing.md,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  eventIcon: {
+    fontSize: 18,
+    marginRight: spacing.md,
+  },
+  eventRowText: {
+    flex: 1,
+  },
+  eventValue: {
+    ...typography.body,
+    color: colors.text,
+    fontWeight: '600',
+  },
+  addToCalendarText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+    marginLeft: spacing.md,
+  },
+  eventSubValue: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  eventRules: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
   groupDescription: {
     ...typography.body,
     color: colors.textSecondary,
@@ -2114,9 +4704,46 @@ const styles = StyleSheet.create({
     paddingVertical: spacing.md,
     alignItems: 'center',
   },
+  inviteLinkStatus: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  inviteLinkOptionLabel: {
+    ...typography.bodySmall,
+    color: colors.text,
+    fontWeight: '600',
+    marginTop: spacing.md,
+  },
+  inviteLinkActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xl,
+    marginTop: spacing.lg,
+  },
   shareLinkButton: {
     marginTop: spacing.sm,
   },
+  qrCodeToggle: {
+    alignSelf: 'center',
+    marginTop: spacing.md,
+  },
+  qrCodeContainer: {
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  qrCodeHint: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+  inviteCode: {
+    ...typography.h3,
+    color: colors.text,
+    letterSpacing: 2,
+    marginTop: spacing.xs,
+  },
   divider: {
     height: 1,
     backgroundColor: colors.border,
@@ -2182,24 +4809,71 @@ const styles = StyleSheet.create({
   memberNameRow: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginBottom: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  memberUsername: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  memberUsernameSecondary: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  ownerBadge: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  transferBanner: {
+    backgroundColor: colors.warningBackground,
+    borderRadius: 12,
+    padding: spacing.lg,
+    marginBottom: spacing.xl,
+  },
+  transferBannerText: {
+    ...typography.body,
+    color: colors.text,
+    marginBottom: spacing.md,
+  },
+  transferBannerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+  },
+  transferBannerButton: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderRadius: 8,
+    minWidth: 80,
+    alignItems: 'center',
   },
-  memberUsername: {
-    ...typography.body,
+  transferDeclineButton: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  transferAcceptButtonText: {
+    color: '#fff',
+    ...typography.bodySmall,
     fontWeight: '600',
+  },
+  transferDeclineButtonText: {
     color: colors.text,
-    marginRight: spacing.sm,
+    ...typography.bodySmall,
+    fontWeight: '600',
   },
-  memberUsernameSecondary: {
+  leaveHint: {
     ...typography.bodySmall,
     color: colors.textSecondary,
-    marginBottom: spacing.xs,
+    marginBottom: spacing.md,
   },
-  ownerBadge: {
-    backgroundColor: colors.primary,
-    paddingHorizontal: spacing.sm,
-    paddingVertical: 2,
-    borderRadius: 4,
+  adminBadge: {
+    backgroundColor: colors.textSecondary,
   },
   ownerBadgeText: {
     color: '#fff',
@@ -2274,10 +4948,134 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.border,
   },
+  exclusionPairInfo: {
+    flex: 1,
+  },
+  roundBar: {
+    marginBottom: spacing.lg,
+  },
+  roundChips: {
+    gap: spacing.sm,
+  },
+  roundChip: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  roundChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  roundChipText: {
+    ...typography.bodySmall,
+    color: colors.text,
+  },
+  roundChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  closeRoundText: {
+    ...typography.bodySmall,
+    color: colors.danger,
+    fontWeight: '600',
+    marginTop: spacing.sm,
+  },
+  roundHistoryHeading: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  roundHistoryRow: {
+    ...typography.bodySmall,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  roundStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  roundStepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  roundStepperButtonText: {
+    ...typography.h3,
+    color: colors.primary,
+  },
+  roundStepperValue: {
+    ...typography.body,
+    color: colors.text,
+  },
+  householdsContainer: {
+    marginTop: spacing.lg,
+  },
+  householdsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  householdsTitle: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  householdCard: {
+    backgroundColor: colors.surface,
+    padding: spacing.md,
+    borderRadius: 12,
+    marginBottom: spacing.sm,
+  },
+  householdName: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  householdMembers: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  householdHint: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  deleteHouseholdButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    marginTop: spacing.sm,
+  },
+  drawWarning: {
+    backgroundColor: colors.warningBackground,
+    borderRadius: 12,
+    padding: spacing.md,
+    marginTop: spacing.sm,
+  },
+  drawWarningTitle: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+    color: colors.warning,
+    marginBottom: spacing.xs,
+  },
+  drawWarningText: {
+    ...typography.bodySmall,
+    color: colors.text,
+  },
   exclusionPairText: {
     ...typography.body,
     color: colors.text,
-    flex: 1,
   },
   removeExclusionButton: {
     paddingHorizontal: spacing.md,
@@ -2288,6 +5086,40 @@ const styles = StyleSheet.create({
     color: colors.danger,
     fontWeight: '600',
   },
+  toggleExclusionButtonText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  exclusionPairDescription: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  exclusionDirectionOptions: {
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  exclusionDirectionOption: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  exclusionDirectionOptionSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  exclusionDirectionOptionText: {
+    ...typography.bodySmall,
+    color: colors.text,
+  },
+  exclusionDirectionOptionTextSelected: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
   modalSubtitle: {
     ...typography.bodySmall,
     color: colors.textSecondary,
@@ -2457,6 +5289,15 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.xs * 1.5,
   },
+  roleButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs * 1.5,
+  },
+  roleButtonText: {
+    color: colors.primary,
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
   removeButtonText: {
     color: colors.danger,
     ...typography.bodySmall,
@@ -2552,6 +5393,34 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.textSecondary,
   },
+  syncStatusText: {
+    ...typography.caption,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  syncStatusTextFailed: {
+    color: colors.danger,
+  },
+  pendingChangesList: {
+    gap: spacing.sm,
+  },
+  pendingChangeCard: {
+    backgroundColor: colors.background,
+    padding: spacing.md,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  pendingChangeText: {
+    ...typography.body,
+    color: colors.text,
+  },
+  pendingChangeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
   giftIdeaActionButtons: {
     flexDirection: 'row',
     gap: spacing.md,
@@ -2699,6 +5568,13 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: spacing.xs,
   },
+  giftIdeaReservationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
   assignedPersonGiftIdeaLink: {
     marginTop: spacing.xs,
     marginBottom: spacing.xs,
@@ -2786,6 +5662,25 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginBottom: spacing.sm,
   },
+  bulkInviteName: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  bulkInviteStatus: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    flexShrink: 1,
+    textAlign: 'right',
+  },
+  bulkInviteStatusReady: {
+    color: colors.primary,
+  },
+  bulkInviteStatusSuccess: {
+    color: colors.success,
+  },
+  bulkInviteStatusError: {
+    color: colors.danger,
+  },
   searchResultUsername: {
     ...typography.body,
     fontWeight: '600',
@@ -2816,6 +5711,46 @@ const styles = StyleSheet.create({
     minWidth: 80,
     alignItems: 'center',
   },
+  scheduleButton: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    marginRight: spacing.sm,
+    alignItems: 'center',
+  },
+  scheduleButtonText: {
+    color: colors.text,
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  scheduledDrawLabel: {
+    ...typography.body,
+    color: colors.text,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  scheduledDrawCountdown: {
+    ...typography.h2,
+    color: colors.primary,
+    marginVertical: spacing.sm,
+    fontVariant: ['tabular-nums'],
+  },
+  scheduledDrawActions: {
+    flexDirection: 'row',
+    gap: spacing.xl,
+    marginTop: spacing.md,
+  },
+  scheduledDrawActionText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  scheduledDrawCancelText: {
+    color: colors.danger,
+  },
   assignButtonDisabled: {
     opacity: 0.6,
   },
@@ -2906,6 +5841,45 @@ const styles = StyleSheet.create({
     borderColor: colors.border,
     alignItems: 'center',
   },
+  managedResultsCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.lg,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  managedResultsHeader: {
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  managedResultsActions: {
+    flexDirection: 'row',
+    gap: spacing.xl,
+  },
+  managedResultsHint: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  managedPairingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  managedPairingInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  managedPairingName: {
+    ...typography.body,
+    color: colors.text,
+  },
+  managedPairingStatus: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
   noAssignmentIcon: {
     fontSize: 32,
     marginBottom: spacing.sm,
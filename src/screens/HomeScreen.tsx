@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -19,19 +19,27 @@ import {
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system/legacy';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
 import { useAuth } from '../context/AuthContext';
 import { groupService, GroupServiceError } from '../services/groupService';
 import { getErrorMessage } from '../utils/errors';
 import { confirmDestructive } from '../utils/confirm';
+import { GROUP_NAME_MAX_LENGTH, GROUP_DESCRIPTION_MAX_LENGTH } from '../utils/constants';
+import { eventSummary } from '../utils/event';
+import { inviteLinkFromInput } from '../utils/links';
 import { Group, Invitation } from '../types/group';
 import { colors, spacing, typography, commonStyles } from '../styles/theme';
+import OfflineBanner from '../components/OfflineBanner';
+import { realtime, realtimeChannels, RealtimeEvent } from '../services/realtime';
 
 interface HomeScreenProps {
   onGroupPress: (groupId: string) => void;
   onNavigateToProfile: () => void;
+  // Opens an invite deep link, as if it had been tapped
+  onJoinWithCode: (inviteUrl: string) => void;
 }
 
-export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeScreenProps) {
+export default function HomeScreen({ onGroupPress, onNavigateToProfile, onJoinWithCode }: HomeScreenProps) {
   const { username, displayName, imageUrl, signOut } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
   const [invitations, setInvitations] = useState<Invitation[]>([]);
@@ -39,43 +47,86 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
   const [loadingInvitations, setLoadingInvitations] = useState(true);
   const [menuVisible, setMenuVisible] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
+  const [joinCodeVisible, setJoinCodeVisible] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
+  const [joinCodeError, setJoinCodeError] = useState<string | null>(null);
+  const [scanningJoinCode, setScanningJoinCode] = useState(false);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  // The camera keeps reporting the code while it is in view; only the first scan counts
+  const joinCodeScanned = useRef(false);
   const [groupName, setGroupName] = useState('');
   const [groupDescription, setGroupDescription] = useState('');
   const [groupImage, setGroupImage] = useState<string | null>(null);
+  const [groupIsManaged, setGroupIsManaged] = useState(false);
   const [creating, setCreating] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
 
-  const loadGroups = useCallback(async () => {
-    setLoading(true);
+  const loadGroups = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setLoading(true);
+    }
     try {
-      const userGroups = await groupService.getGroups();
-      setGroups(userGroups);
+      const result = await groupService.getGroups();
+      setGroups(result.data);
+      setIsOffline(result.isStale);
+      setLastUpdated(result.updatedAt);
     } catch (error: any) {
-      const errorMessage = error instanceof GroupServiceError 
-        ? error.appError.userMessage 
-        : getErrorMessage(error);
-      Alert.alert('Error', errorMessage);
+      if (showLoading) {
+        const errorMessage = error instanceof GroupServiceError 
+          ? error.appError.userMessage 
+          : getErrorMessage(error);
+        Alert.alert('Error', errorMessage);
+      }
     } finally {
-      setLoading(false);
+      if (showLoading) {
+        setLoading(false);
+      }
     }
   }, []);
 
-  const loadInvitations = useCallback(async () => {
-    setLoadingInvitations(true);
+  const loadInvitations = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setLoadingInvitations(true);
+    }
     try {
       const pendingInvitations = await groupService.getPendingInvitations();
       setInvitations(pendingInvitations);
     } catch (error: any) {
       console.error('Error loading invitations:', error);
     } finally {
-      setLoadingInvitations(false);
+      if (showLoading) {
+        setLoadingInvitations(false);
+      }
     }
   }, []);
 
   useEffect(() => {
-    loadGroups();
+    const loadInitialGroups = async () => {
+      // Show the last known groups right away, then revalidate
+      const cached = await groupService.getCachedGroups();
+      if (cached) {
+        setGroups(cached.data);
+      }
+      await loadGroups();
+    };
+
+    loadInitialGroups();
     loadInvitations();
   }, [loadGroups, loadInvitations]);
 
+  // Keep the group list and invitations current while the screen is open
+  useEffect(() => {
+    return realtime.subscribe(realtimeChannels.user(), (event: RealtimeEvent) => {
+      if (event.type.startsWith('invitation_') || event.type === 'resync') {
+        loadInvitations(false);
+      }
+      if (!event.type.startsWith('gift_idea_')) {
+        loadGroups(false);
+      }
+    });
+  }, [loadGroups, loadInvitations]);
+
   const handlePickImage = async () => {
     try {
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -131,7 +182,8 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
       await groupService.createGroup(
         groupName.trim(), 
         groupDescription.trim() || undefined,
-        imageBase64
+        imageBase64,
+        groupIsManaged || undefined
       );
       setModalVisible(false);
       // Delay state cleanup and data reload to avoid race condition with modal dismissal
@@ -139,6 +191,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
         setGroupName('');
         setGroupDescription('');
         setGroupImage(null);
+        setGroupIsManaged(false);
         loadGroups();
       });
     } catch (error: any) {
@@ -151,6 +204,51 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
     }
   };
 
+  const closeJoinCode = () => {
+    setJoinCodeVisible(false);
+    setJoinCode('');
+    setJoinCodeError(null);
+    setScanningJoinCode(false);
+  };
+
+  const handleScanJoinCode = async () => {
+    const permission = cameraPermission?.granted ? cameraPermission : await requestCameraPermission();
+    if (!permission.granted) {
+      Alert.alert(
+        'Camera Access Needed',
+        'Allow Geschenk to use the camera to scan invite QR codes, or enter the code instead.'
+      );
+      return;
+    }
+    joinCodeScanned.current = false;
+    setJoinCodeError(null);
+    setScanningJoinCode(true);
+  };
+
+  const handleJoinCodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (joinCodeScanned.current) return;
+    joinCodeScanned.current = true;
+
+    const inviteUrl = inviteLinkFromInput(data);
+    if (!inviteUrl) {
+      setScanningJoinCode(false);
+      setJoinCodeError('This QR code is not a group invite. Scan the code shown in the group\'s invite settings.');
+      return;
+    }
+    closeJoinCode();
+    onJoinWithCode(inviteUrl);
+  };
+
+  const handleJoinWithCode = () => {
+    const inviteUrl = inviteLinkFromInput(joinCode);
+    if (!inviteUrl) {
+      setJoinCodeError('Enter the code shown under the QR code, or paste an invite link.');
+      return;
+    }
+    closeJoinCode();
+    onJoinWithCode(inviteUrl);
+  };
+
   const handleAcceptInvitation = async (invitationId: number) => {
     try {
       await groupService.acceptInvitation(invitationId);
@@ -206,6 +304,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
   const renderGroupItem = ({ item }: { item: Group }) => {
     // Use member_count from API if available, otherwise fall back to members array length
     const memberCount = item.member_count ?? (item.members ? item.members.length : null);
+    const event = eventSummary(item);
     return (
       <TouchableOpacity
         style={styles.groupCard}
@@ -228,6 +327,9 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
                   {item.description}
                 </Text>
               )}
+              {event && (
+                <Text style={styles.groupEvent} numberOfLines={1}>{event}</Text>
+              )}
               <View style={styles.groupMeta}>
                 {memberCount !== null && (
                   <>
@@ -328,6 +430,8 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
         </TouchableOpacity>
       </View>
 
+      {isOffline && <OfflineBanner updatedAt={lastUpdated} />}
+
       {groups.length === 0 ? (
         <ScrollView
           contentContainerStyle={styles.emptyScrollContent}
@@ -377,6 +481,9 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
             >
               <Text style={styles.emptyCreateButtonText}>Create Your First Group</Text>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.joinCodeLink} onPress={() => setJoinCodeVisible(true)}>
+              <Text style={styles.joinCodeLinkText}>Have an invite code? Join with Code</Text>
+            </TouchableOpacity>
           </View>
         </ScrollView>
       ) : (
@@ -461,6 +568,17 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
               <Text style={styles.menuItemText}>Edit Profile</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                setMenuVisible(false);
+                setJoinCodeVisible(true);
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.menuItemText}>Join with Code</Text>
+            </TouchableOpacity>
+
             <View style={styles.menuDivider} />
 
             <TouchableOpacity
@@ -477,6 +595,79 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
         </View>
       </Modal>
 
+      {/* Join with Code Modal */}
+      <Modal
+        visible={joinCodeVisible}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={closeJoinCode}
+      >
+        <KeyboardAvoidingView
+          style={commonStyles.modalOverlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={commonStyles.modalContent}>
+            <Text style={styles.modalTitle}>Join with Code</Text>
+            <Text style={styles.modalSubtitle}>
+              {Platform.OS === 'web'
+                ? 'Enter the code shown under the group\'s QR code, or paste an invite link.'
+                : 'Scan the group\'s QR code, or enter the code shown under it.'}
+            </Text>
+            {scanningJoinCode ? (
+              <>
+                <CameraView
+                  style={styles.joinCodeScanner}
+                  facing="back"
+                  barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                  onBarcodeScanned={handleJoinCodeScanned}
+                />
+                <TouchableOpacity style={styles.joinCodeLink} onPress={() => setScanningJoinCode(false)}>
+                  <Text style={styles.joinCodeLinkText}>Enter code instead</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                {Platform.OS !== 'web' && (
+                  <TouchableOpacity style={styles.joinCodeLink} onPress={handleScanJoinCode}>
+                    <Text style={styles.joinCodeLinkText}>Scan QR code</Text>
+                  </TouchableOpacity>
+                )}
+                <TextInput
+                  style={[commonStyles.input, styles.joinCodeInput]}
+                  placeholder="e.g. K7P2-QXMA"
+                  value={joinCode}
+                  onChangeText={(text) => {
+                    setJoinCode(text);
+                    setJoinCodeError(null);
+                  }}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  autoFocus
+                  onSubmitEditing={handleJoinWithCode}
+                  placeholderTextColor={colors.textTertiary}
+                />
+              </>
+            )}
+            {joinCodeError && <Text style={styles.joinCodeError}>{joinCodeError}</Text>}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[commonStyles.button, styles.cancelButton]}
+                onPress={closeJoinCode}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[commonStyles.button, styles.joinCodeButton, !joinCode.trim() && styles.buttonDisabled]}
+                onPress={handleJoinWithCode}
+                disabled={!joinCode.trim()}
+              >
+                <Text style={commonStyles.buttonText}>Join</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       {/* Create Group Modal */}
       <Modal
         visible={modalVisible}
@@ -490,6 +681,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
               setGroupName('');
               setGroupDescription('');
               setGroupImage(null);
+              setGroupIsManaged(false);
             });
           }
         }}
@@ -510,6 +702,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
                   setGroupName('');
                   setGroupDescription('');
                   setGroupImage(null);
+                  setGroupIsManaged(false);
                 });
               }
             }}
@@ -558,6 +751,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
                     value={groupName}
                     onChangeText={setGroupName}
                     autoCapitalize="words"
+                    maxLength={GROUP_NAME_MAX_LENGTH}
                     editable={!creating}
                     placeholderTextColor={colors.textTertiary}
                   />
@@ -571,6 +765,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
                     value={groupDescription}
                     onChangeText={setGroupDescription}
                     multiline
+                    maxLength={GROUP_DESCRIPTION_MAX_LENGTH}
                     numberOfLines={4}
                     autoCapitalize="sentences"
                     editable={!creating}
@@ -578,6 +773,32 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
                     placeholderTextColor={colors.textTertiary}
                   />
                 </View>
+
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>Participants</Text>
+                  <View style={styles.optionChips}>
+                    {[false, true].map((isManaged) => {
+                      const selected = isManaged === groupIsManaged;
+                      return (
+                        <TouchableOpacity
+                          key={isManaged ? 'managed' : 'members'}
+                          style={[styles.optionChip, selected && styles.optionChipSelected]}
+                          onPress={() => setGroupIsManaged(isManaged)}
+                          disabled={creating}
+                        >
+                          <Text style={[styles.optionChipText, selected && styles.optionChipTextSelected]}>
+                            {isManaged ? 'I enter everyone' : 'Everyone joins'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {groupIsManaged && (
+                    <Text style={styles.optionHint}>
+                      Add the participants yourself and send each one a link to their result. Nobody else needs an account, and you don't take part in the draw.
+                    </Text>
+                  )}
+                </View>
               </View>
 
               <View style={styles.modalActions}>
@@ -591,6 +812,7 @@ export default function HomeScreen({ onGroupPress, onNavigateToProfile }: HomeSc
                         setGroupName('');
                         setGroupDescription('');
                         setGroupImage(null);
+                        setGroupIsManaged(false);
                       });
                     }
                   }}
@@ -837,6 +1059,12 @@ const styles = StyleSheet.create({
     marginBottom: spacing.sm,
     lineHeight: 20,
   },
+  groupEvent: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
   groupMeta: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -905,6 +1133,33 @@ const styles = StyleSheet.create({
     ...typography.body,
     fontWeight: '600',
   },
+  joinCodeLink: {
+    marginTop: spacing.lg,
+  },
+  joinCodeLinkText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  joinCodeInput: {
+    marginTop: spacing.lg,
+  },
+  joinCodeScanner: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginTop: spacing.lg,
+  },
+  joinCodeError: {
+    ...typography.bodySmall,
+    color: colors.danger,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
+  joinCodeButton: {
+    flex: 1,
+  },
   menuOverlay: {
     flex: 1,
     justifyContent: 'center',
@@ -990,6 +1245,36 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     fontStyle: 'italic',
   },
+  optionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  optionChip: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  optionChipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  optionChipText: {
+    ...typography.bodySmall,
+    color: colors.text,
+  },
+  optionChipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  optionHint: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+  },
   imagePickerButton: {
     backgroundColor: colors.surface,
     borderWidth: 1,
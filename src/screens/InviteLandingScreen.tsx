@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -6,9 +6,13 @@ import {
   StyleSheet,
   Platform,
   Linking,
+  ActivityIndicator,
 } from 'react-native';
 import { colors, spacing, typography, commonStyles } from '../styles/theme';
 import { APP_STORE_URL, PLAY_STORE_URL } from '../utils/constants';
+import { apiClient } from '../lib/api';
+import { GroupPreview } from '../types/group';
+import { isInviteLinkError } from '../utils/errors';
 
 interface InviteLandingScreenProps {
   token: string;
@@ -23,6 +27,27 @@ export default function InviteLandingScreen({
 }: InviteLandingScreenProps) {
   const isIOS = Platform.OS === 'ios' || (typeof navigator !== 'undefined' && /iPad|iPhone|iPod/.test(navigator.userAgent) && !(window as any).MSStream);
   const isAndroid = Platform.OS === 'android' || (typeof navigator !== 'undefined' && /Android/.test(navigator.userAgent));
+  const [loading, setLoading] = useState(true);
+  const [group, setGroup] = useState<GroupPreview | null>(null);
+  // Why the link can't be used (expired, revoked, used up or invalid)
+  const [unavailableMessage, setUnavailableMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient.getGroupByInviteToken(token).then((response) => {
+      if (cancelled) return;
+      if (response.data) {
+        setGroup(response.data.group);
+      } else if (isInviteLinkError(response.appError)) {
+        setUnavailableMessage(response.error || null);
+      }
+      // Other errors (e.g. offline) keep the generic prompt; the app checks the link again on join
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
 
   const handleOpenApp = () => {
     // On web, use window.location or create an anchor tag
@@ -76,13 +101,35 @@ export default function InviteLandingScreen({
     }
   };
 
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (unavailableMessage) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Text style={styles.icon}>🔒</Text>
+          </View>
+          <Text style={styles.title}>Invite Link Unavailable</Text>
+          <Text style={styles.subtitle}>{unavailableMessage}</Text>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <View style={styles.content}>
         <View style={styles.iconContainer}>
           <Text style={styles.icon}>🎁</Text>
         </View>
-        <Text style={styles.title}>Join Secret Santa Group</Text>
+        <Text style={styles.title}>{group ? `Join "${group.name}"` : 'Join Secret Santa Group'}</Text>
         <Text style={styles.subtitle}>
           Open the Geschenk app to join this group
         </Text>
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { colors, spacing, typography, commonStyles } from '../styles/theme';
+import { groupService, GroupServiceError } from '../services/groupService';
+import { RevealPreview } from '../types/group';
+import { parseError, isConnectivityError } from '../utils/errors';
+import { formatBudget, formatEventDate } from '../utils/event';
+
+interface RevealScreenProps {
+  token: string;
+  onDone: () => void;
+}
+
+/**
+ * Shows a participant of a managed group who they're giving a gift to, without an account.
+ * The receiver is only fetched once the participant taps reveal, as that uses up the link.
+ */
+export default function RevealScreen({ token, onDone }: RevealScreenProps) {
+  const [loading, setLoading] = useState(true);
+  const [preview, setPreview] = useState<RevealPreview | null>(null);
+  const [receiverName, setReceiverName] = useState<string | null>(null);
+  const [revealing, setRevealing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Set when the server could not be reached, which says nothing about the link itself
+  const [canRetry, setCanRetry] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setErrorMessage(null);
+    groupService.getReveal(token)
+      .then((data) => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          const appError = error instanceof GroupServiceError ? error.appError : parseError(error);
+          setErrorMessage(appError.userMessage);
+          setCanRetry(isConnectivityError(appError));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, attempt]);
+
+  const handleReveal = async () => {
+    setRevealing(true);
+    try {
+      const reveal = await groupService.openReveal(token);
+      setReceiverName(reveal.receiver_display_name);
+    } catch (error) {
+      const appError = error instanceof GroupServiceError ? error.appError : parseError(error);
+      setErrorMessage(appError.userMessage);
+      setCanRetry(isConnectivityError(appError));
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (errorMessage || !preview) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Text style={styles.icon}>🔒</Text>
+          </View>
+          <Text style={styles.title}>{canRetry ? 'Couldn\'t Connect' : 'Link Unavailable'}</Text>
+          <Text style={styles.subtitle}>{errorMessage || 'This link is not valid. Ask the organizer for a new one.'}</Text>
+          {canRetry ? (
+            <>
+              <TouchableOpacity style={[commonStyles.button, styles.button]} onPress={() => setAttempt(prev => prev + 1)}>
+                <Text style={commonStyles.buttonText}>Try Again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.doneLink} onPress={onDone}>
+                <Text style={styles.doneLinkText}>Done</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity style={[commonStyles.button, styles.button]} onPress={onDone}>
+              <Text style={commonStyles.buttonText}>Done</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  const details = [
+    preview.event_date ? formatEventDate(preview.event_date) : null,
+    preview.budget != null ? `Spending limit ${formatBudget(preview.budget, preview.currency)}` : null,
+  ].filter(Boolean);
+
+  if (receiverName) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Text style={styles.icon}>🎁</Text>
+          </View>
+          <Text style={styles.subtitle}>{preview.giver_display_name}, you're giving a gift to</Text>
+          <Text style={styles.receiverName}>{receiverName}</Text>
+          {details.map((detail) => (
+            <Text key={detail} style={styles.detail}>{detail}</Text>
+          ))}
+          <Text style={styles.hint}>
+            Remember the name: this link only works once. Keep it a secret!
+          </Text>
+          <TouchableOpacity style={[commonStyles.button, styles.button]} onPress={onDone}>
+            <Text style={commonStyles.buttonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Text style={styles.icon}>🤫</Text>
+        </View>
+        <Text style={styles.title}>Hi {preview.giver_display_name}!</Text>
+        <Text style={styles.subtitle}>
+          Find out who you're giving a gift to in "{preview.group.name}". This link only works
+          once, so make sure nobody is looking over your shoulder.
+        </Text>
+        <TouchableOpacity
+          style={[commonStyles.button, styles.button, revealing && styles.buttonDisabled]}
+          onPress={handleReveal}
+          disabled={revealing}
+        >
+          {revealing ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={commonStyles.buttonText}>Reveal</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  content: {
+    alignItems: 'center',
+    maxWidth: 400,
+    width: '100%',
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+    borderWidth: 2,
+    borderColor: colors.border,
+  },
+  icon: {
+    fontSize: 40,
+  },
+  title: {
+    ...typography.h2,
+    fontSize: 24,
+    color: colors.text,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+    lineHeight: 22,
+  },
+  receiverName: {
+    ...typography.h2,
+    fontSize: 32,
+    color: colors.primary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  detail: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  hint: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+    marginBottom: spacing.xl,
+  },
+  button: {
+    width: '100%',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  doneLink: {
+    marginTop: spacing.lg,
+    padding: spacing.sm,
+  },
+  doneLinkText: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+});
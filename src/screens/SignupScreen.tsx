@@ -16,13 +16,16 @@ import { colors, spacing, typography, commonStyles } from '../styles/theme';
 
 interface SignupScreenProps {
   onSwitchToLogin: () => void;
+  // Why the user is asked to sign up, e.g. to take over a placeholder from a claim link
+  notice?: string;
+  initialDisplayName?: string;
 }
 
-export default function SignupScreen({ onSwitchToLogin }: SignupScreenProps) {
+export default function SignupScreen({ onSwitchToLogin, notice, initialDisplayName }: SignupScreenProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [displayName, setDisplayName] = useState('');
+  const [displayName, setDisplayName] = useState(initialDisplayName ?? '');
   const [loading, setLoading] = useState(false);
   const { signUp } = useAuth();
 
@@ -75,6 +78,11 @@ export default function SignupScreen({ onSwitchToLogin }: SignupScreenProps) {
         <View style={styles.content}>
           <Text style={styles.title}>Sign Up</Text>
           <Text style={styles.subtitle}>Create a new account</Text>
+          {notice && (
+            <View style={styles.notice}>
+              <Text style={styles.noticeText}>{notice}</Text>
+            </View>
+          )}
 
           <TextInput
             style={commonStyles.input}
@@ -164,6 +172,17 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xxl * 1.5,
     textAlign: 'center',
   },
+  notice: {
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: spacing.lg,
+    marginBottom: spacing.lg,
+  },
+  noticeText: {
+    ...typography.bodySmall,
+    color: colors.text,
+    textAlign: 'center',
+  },
   buttonDisabled: {
     opacity: 0.6,
   },
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+  Linking,
+  Alert,
+} from 'react-native';
+import { colors, spacing, typography, commonStyles } from '../styles/theme';
+import { groupService, GroupServiceError } from '../services/groupService';
+import { SlipGiftIdeas } from '../types/group';
+import { parseError, isConnectivityError } from '../utils/errors';
+
+interface SlipGiftIdeasScreenProps {
+  token: string;
+  onDone: () => void;
+}
+
+/**
+ * The gift ideas for whoever is named on a printed draw slip, opened from its QR code
+ * by participants who may not have an account.
+ */
+export default function SlipGiftIdeasScreen({ token, onDone }: SlipGiftIdeasScreenProps) {
+  const [loading, setLoading] = useState(true);
+  const [ideas, setIdeas] = useState<SlipGiftIdeas | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Set when the server could not be reached, which says nothing about the link itself
+  const [canRetry, setCanRetry] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setErrorMessage(null);
+    groupService.getSlipGiftIdeas(token)
+      .then((data) => {
+        if (!cancelled) setIdeas(data);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          const appError = error instanceof GroupServiceError ? error.appError : parseError(error);
+          setErrorMessage(appError.userMessage);
+          setCanRetry(isConnectivityError(appError));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, attempt]);
+
+  const handleOpenLink = (link: string) => {
+    const url = link.startsWith('http://') || link.startsWith('https://') ? link : `https://${link}`;
+    Linking.openURL(url).catch((err) => {
+      console.error('Failed to open URL:', err);
+      Alert.alert('Error', 'Could not open link');
+    });
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (errorMessage || !ideas) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.iconContainer}>
+            <Text style={styles.icon}>🔒</Text>
+          </View>
+          <Text style={styles.title}>{canRetry ? 'Couldn\'t Connect' : 'Link Unavailable'}</Text>
+          <Text style={styles.subtitle}>{errorMessage || 'This link is not valid. Ask the organizer for a new slip.'}</Text>
+          {canRetry ? (
+            <>
+              <TouchableOpacity style={[commonStyles.button, styles.button]} onPress={() => setAttempt(prev => prev + 1)}>
+                <Text style={commonStyles.buttonText}>Try Again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.doneLink} onPress={onDone}>
+                <Text style={styles.doneLinkText}>Done</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity style={[commonStyles.button, styles.button]} onPress={onDone}>
+              <Text style={commonStyles.buttonText}>Done</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.scroll} contentContainerStyle={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Text style={styles.icon}>🎁</Text>
+        </View>
+        <Text style={styles.title}>Gift ideas for {ideas.receiver_display_name}</Text>
+        <Text style={styles.subtitle}>From the Secret Santa "{ideas.group.name}"</Text>
+        {ideas.gift_ideas.length === 0 ? (
+          <Text style={styles.hint}>No gift ideas yet. Check again closer to the exchange.</Text>
+        ) : (
+          ideas.gift_ideas.map((idea) => (
+            <View key={idea.id} style={styles.idea}>
+              <Text style={styles.ideaText}>{idea.idea}</Text>
+              {idea.link && (
+                <TouchableOpacity onPress={() => handleOpenLink(idea.link!)}>
+                  <Text style={styles.ideaLink}>🔗 Open Link</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+        <TouchableOpacity style={[commonStyles.button, styles.button]} onPress={onDone}>
+          <Text style={commonStyles.buttonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  container: {
+    flexGrow: 1,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  content: {
+    alignItems: 'center',
+    maxWidth: 400,
+    width: '100%',
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+    borderWidth: 2,
+    borderColor: colors.border,
+  },
+  icon: {
+    fontSize: 40,
+  },
+  title: {
+    ...typography.h2,
+    fontSize: 24,
+    color: colors.text,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  subtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+    lineHeight: 22,
+  },
+  idea: {
+    width: '100%',
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: colors.surface,
+  },
+  ideaText: {
+    ...typography.body,
+    color: colors.text,
+  },
+  ideaLink: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    marginTop: spacing.xs,
+  },
+  hint: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+  },
+  button: {
+    width: '100%',
+    marginTop: spacing.lg,
+  },
+  doneLink: {
+    marginTop: spacing.lg,
+    padding: spacing.sm,
+  },
+  doneLinkText: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+});
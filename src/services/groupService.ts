@@ -1,6 +1,43 @@
 import { apiClient } from '../lib/api';
-import { Group, Invitation, Assignment, GiftIdea } from '../types/group';
-import { AppError, ErrorType, parseError, logError } from '../utils/errors';
+import {
+  Group,
+  GroupMember,
+  Invitation,
+  BulkInviteResult,
+  InviteLink,
+  InviteLinkSettings,
+  Assignment,
+  GiftIdea,
+  Exclusion,
+  Household,
+  ArchivedDraw,
+  DrawOptions,
+  DrawSchedule,
+  GroupUpdate,
+  OwnershipTransfer,
+  PlaceholderClaim,
+  PlaceholderMemberInput,
+  Reveal,
+  RevealPreview,
+  SlipGiftIdeas,
+  SlipLink,
+  Round,
+  RoundPairing,
+  RoundDetail,
+} from '../types/group';
+import { User } from '../types/user';
+import { AppError, ErrorType, parseError, logError, isConnectivityError } from '../utils/errors';
+import { offlineCache, cacheKeys, CacheEntry } from './offlineCache';
+import {
+  GROUP_NAME_MAX_LENGTH,
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  GROUP_LOCATION_MAX_LENGTH,
+  GROUP_RULES_MAX_LENGTH,
+  PLACEHOLDER_NAME_MAX_LENGTH,
+  BULK_INVITE_MAX_USERNAMES,
+  BULK_INVITE_LOOKUP_CONCURRENCY,
+} from '../utils/constants';
+import { isValidEventDate, isValidEventTime, normalizeEventTime } from '../utils/event';
 
 export class GroupServiceError extends Error {
   appError: AppError;
@@ -12,25 +49,78 @@ export class GroupServiceError extends Error {
   }
 }
 
+function validateInviteLinkSettings(settings: InviteLinkSettings): string | null {
+  if (settings.max_uses !== null && (!Number.isInteger(settings.max_uses) || settings.max_uses < 1)) {
+    return 'The usage limit must be at least 1.';
+  }
+  if (settings.expires_at !== null && !(new Date(settings.expires_at).getTime() > Date.now())) {
+    return 'The expiry must be in the future.';
+  }
+  return null;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  // True when the server could not be reached and data (if any) comes from the offline cache
+  isStale: boolean;
+  // Epoch milliseconds of when the data was last fetched from the server
+  updatedAt: number | null;
+}
+
+async function fresh<T>(key: string, data: T): Promise<CachedResult<T>> {
+  await offlineCache.set(key, data);
+  return { data, isStale: false, updatedAt: Date.now() };
+}
+
+// The last known data, only when the server could not be reached (a 5xx is an error, not offline)
+async function fallback<T>(key: string, appError: AppError, emptyValue: T): Promise<CachedResult<T>> {
+  if (!isConnectivityError(appError)) {
+    return { data: emptyValue, isStale: false, updatedAt: null };
+  }
+  const cached = await offlineCache.get<T>(key);
+  return {
+    data: cached ? cached.data : emptyValue,
+    isStale: true,
+    updatedAt: cached ? cached.updatedAt : null,
+  };
+}
+
 export const groupService = {
+  // Read the last known groups list from the offline cache
+  async getCachedGroups(): Promise<CacheEntry<Group[]> | null> {
+    return offlineCache.get<Group[]>(cacheKeys.groups());
+  },
+
+  async getCachedGroup(groupId: string): Promise<CacheEntry<Group> | null> {
+    return offlineCache.get<Group>(cacheKeys.group(groupId));
+  },
+
+  async getCachedAssignment(groupId: string): Promise<CacheEntry<Assignment | null> | null> {
+    return offlineCache.get<Assignment | null>(cacheKeys.assignment(groupId));
+  },
+
+  async getCachedGiftIdeas(groupId: string, forUserId?: number): Promise<CacheEntry<GiftIdea[]> | null> {
+    return offlineCache.get<GiftIdea[]>(cacheKeys.giftIdeas(groupId, forUserId));
+  },
+
   // Fetch all groups for the current user
-  async getGroups(): Promise<Group[]> {
+  async getGroups(): Promise<CachedResult<Group[]>> {
     const response = await apiClient.getGroups();
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
       logError(appError, 'groupService.getGroups');
-      // Return empty array for non-critical errors (network issues, etc.)
-      // This allows the UI to still render, showing an empty state
-      return [];
+      // Fall back to the last known groups (or an empty array) for non-critical errors
+      // This allows the UI to still render while offline
+      return fallback(cacheKeys.groups(), appError, []);
     }
 
-    return response.data?.groups || [];
+    return fresh(cacheKeys.groups(), response.data?.groups || []);
   },
 
   // Create a new group
-  async createGroup(name: string, description?: string, imageUrl?: string): Promise<Group> {
-    const response = await apiClient.createGroup(name, description, imageUrl);
+  async createGroup(name: string, description?: string, imageUrl?: string, isManaged?: boolean): Promise<Group> {
+    const response = await apiClient.createGroup(name, description, imageUrl, isManaged);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
@@ -52,7 +142,7 @@ export const groupService = {
   },
 
   // Get a single group by ID
-  async getGroupById(groupId: string): Promise<Group | null> {
+  async getGroupById(groupId: string): Promise<CachedResult<Group | null>> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -61,7 +151,7 @@ export const groupService = {
         userMessage: 'Invalid group ID',
       };
       logError(appError, 'groupService.getGroupById');
-      return null;
+      return { data: null, isStale: false, updatedAt: null };
     }
 
     const response = await apiClient.getGroup(id);
@@ -69,19 +159,19 @@ export const groupService = {
     if (response.error) {
       const appError = response.appError || parseError(response.error);
       logError(appError, 'groupService.getGroupById');
-      // Return null for not found errors, but log other errors
+      // The group is gone (deleted or no longer a member), drop it from the cache
       if (appError.type === ErrorType.NOT_FOUND) {
-        return null;
+        await offlineCache.remove(cacheKeys.group(groupId));
       }
-      // For other errors, still return null but log them
-      return null;
+      // Serve the cached group when offline, null otherwise
+      return fallback<Group | null>(cacheKeys.group(groupId), appError, null);
     }
 
-    return response.data?.group || null;
+    return fresh(cacheKeys.group(groupId), response.data?.group || null);
   },
 
-  // Update a group
-  async updateGroup(groupId: string, imageUrl?: string): Promise<Group> {
+  // Update a group's name, description and/or image; only the given fields are changed
+  async updateGroup(groupId: string, updates: GroupUpdate): Promise<Group> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -93,7 +183,55 @@ export const groupService = {
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.updateGroup(id, imageUrl);
+    const fieldErrors: Record<string, string> = {};
+    if (updates.name !== undefined) {
+      const name = updates.name.trim();
+      if (!name) {
+        fieldErrors.name = 'Group name is required';
+      } else if (name.length > GROUP_NAME_MAX_LENGTH) {
+        fieldErrors.name = `Group name can be at most ${GROUP_NAME_MAX_LENGTH} characters`;
+      }
+    }
+    if (updates.description && updates.description.trim().length > GROUP_DESCRIPTION_MAX_LENGTH) {
+      fieldErrors.description = `Description can be at most ${GROUP_DESCRIPTION_MAX_LENGTH} characters`;
+    }
+    if (updates.event_date && !isValidEventDate(updates.event_date)) {
+      fieldErrors.event_date = 'Enter the date as YYYY-MM-DD';
+    }
+    if (updates.event_time && !isValidEventTime(updates.event_time)) {
+      fieldErrors.event_time = 'Enter the time as HH:MM';
+    }
+    if (updates.location && updates.location.trim().length > GROUP_LOCATION_MAX_LENGTH) {
+      fieldErrors.location = `Location can be at most ${GROUP_LOCATION_MAX_LENGTH} characters`;
+    }
+    if (updates.budget != null && (!Number.isFinite(updates.budget) || updates.budget < 0)) {
+      fieldErrors.budget = 'Spending limit must be a positive amount';
+    }
+    if (updates.currency && !/^[A-Z]{3}$/.test(updates.currency)) {
+      fieldErrors.currency = 'Choose a currency';
+    }
+    if (updates.rules && updates.rules.trim().length > GROUP_RULES_MAX_LENGTH) {
+      fieldErrors.rules = `Rules can be at most ${GROUP_RULES_MAX_LENGTH} characters`;
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group update: ${Object.keys(fieldErrors).join(', ')}`,
+        userMessage: 'Please check your input and try again.',
+        fieldErrors,
+      };
+      logError(appError, 'groupService.updateGroup');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.updateGroup(id, {
+      ...updates,
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.description !== undefined && { description: updates.description?.trim() || null }),
+      ...(updates.event_time && { event_time: normalizeEventTime(updates.event_time) }),
+      ...(updates.location !== undefined && { location: updates.location?.trim() || null }),
+      ...(updates.rules !== undefined && { rules: updates.rules?.trim() || null }),
+    });
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
@@ -158,6 +296,73 @@ export const groupService = {
     }
   },
 
+  // Look up users by exact username (ignoring case), keyed by lower case username.
+  // Usernames nobody has are missing from the result.
+  async findUsersByUsername(usernames: string[]): Promise<Map<string, User>> {
+    const users = new Map<string, User>();
+    for (let i = 0; i < usernames.length; i += BULK_INVITE_LOOKUP_CONCURRENCY) {
+      const batch = usernames.slice(i, i + BULK_INVITE_LOOKUP_CONCURRENCY);
+      const responses = await Promise.all(batch.map(username => apiClient.searchUsers(username)));
+      responses.forEach((response, j) => {
+        if (response.error) {
+          const appError = response.appError || parseError(response.error);
+          logError(appError, 'groupService.findUsersByUsername');
+          throw new GroupServiceError(appError);
+        }
+        const username = batch[j].toLowerCase();
+        const match = response.data?.users.find(user => user.username.toLowerCase() === username);
+        if (match) {
+          users.set(username, match);
+        }
+      });
+    }
+    return users;
+  },
+
+  // Invite several users at once; the result says for each username whether it worked
+  async inviteUsers(groupId: string, usernames: string[]): Promise<BulkInviteResult[]> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.inviteUsers');
+      throw new GroupServiceError(appError);
+    }
+
+    if (usernames.length === 0 || usernames.length > BULK_INVITE_MAX_USERNAMES) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid number of usernames: ${usernames.length}`,
+        userMessage: `You can invite between 1 and ${BULK_INVITE_MAX_USERNAMES} people at once.`,
+      };
+      logError(appError, 'groupService.inviteUsers');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.inviteUsersToGroup(id, usernames);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.inviteUsers');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No bulk invite results returned',
+        userMessage: 'Failed to send the invitations. Please try again.',
+      };
+      logError(appError, 'groupService.inviteUsers');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.results;
+  },
+
   // Get pending invitations
   async getPendingInvitations(): Promise<Invitation[]> {
     const response = await apiClient.getPendingInvitations();
@@ -216,8 +421,8 @@ export const groupService = {
     }
   },
 
-  // Leave group (member can leave, but owner cannot)
-  async leaveGroup(groupId: string): Promise<void> {
+  // Get the group's invite link with its expiry and usage
+  async getInviteLink(groupId: string): Promise<InviteLink> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -225,21 +430,33 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.leaveGroup');
+      logError(appError, 'groupService.getInviteLink');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.leaveGroup(id);
+    const response = await apiClient.getInviteLink(id);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.leaveGroup');
+      logError(appError, 'groupService.getInviteLink');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No invite link returned',
+        userMessage: 'Failed to load the invite link. Please try again.',
+      };
+      logError(appError, 'groupService.getInviteLink');
       throw new GroupServiceError(appError);
     }
+
+    return response.data;
   },
 
-  // Remove member from group
-  async removeMember(groupId: string, userId: number): Promise<void> {
+  // Replace the invite link with a new one; the old link stops working
+  async regenerateInviteLink(groupId: string, settings: InviteLinkSettings): Promise<InviteLink> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -247,21 +464,44 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.removeMember');
+      logError(appError, 'groupService.regenerateInviteLink');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.removeMember(id, userId);
+    const settingsError = validateInviteLinkSettings(settings);
+    if (settingsError) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid invite link settings: ${settingsError}`,
+        userMessage: settingsError,
+      };
+      logError(appError, 'groupService.regenerateInviteLink');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.regenerateInviteLink(id, settings);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.removeMember');
+      logError(appError, 'groupService.regenerateInviteLink');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No invite link returned',
+        userMessage: 'Failed to create the invite link. Please try again.',
+      };
+      logError(appError, 'groupService.regenerateInviteLink');
       throw new GroupServiceError(appError);
     }
+
+    return response.data;
   },
 
-  // Assign Secret Santa pairs
-  async assignSecretSanta(groupId: string): Promise<void> {
+  // Change the expiry or usage limit of the current invite link
+  async updateInviteLink(groupId: string, settings: InviteLinkSettings): Promise<InviteLink> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -269,21 +509,44 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.assignSecretSanta');
+      logError(appError, 'groupService.updateInviteLink');
+      throw new GroupServiceError(appError);
+    }
+
+    const settingsError = validateInviteLinkSettings(settings);
+    if (settingsError) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid invite link settings: ${settingsError}`,
+        userMessage: settingsError,
+      };
+      logError(appError, 'groupService.updateInviteLink');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.assignSecretSanta(id);
+    const response = await apiClient.updateInviteLink(id, settings);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.assignSecretSanta');
+      logError(appError, 'groupService.updateInviteLink');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No invite link returned',
+        userMessage: 'Failed to update the invite link. Please try again.',
+      };
+      logError(appError, 'groupService.updateInviteLink');
       throw new GroupServiceError(appError);
     }
+
+    return response.data;
   },
 
-  // Get current user's assignment
-  async getAssignment(groupId: string): Promise<Assignment | null> {
+  // Turn the invite link off until a new one is generated
+  async revokeInviteLink(groupId: string): Promise<void> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -291,24 +554,43 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.getAssignment');
-      return null;
+      logError(appError, 'groupService.revokeInviteLink');
+      throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.getAssignment(id);
+    const response = await apiClient.revokeInviteLink(id);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.getAssignment');
-      // Return null for not found or other errors
-      return null;
+      logError(appError, 'groupService.revokeInviteLink');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Let someone who asked to join via the invite link into the group
+  async approveJoinRequest(groupId: string, requestId: number): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.approveJoinRequest');
+      throw new GroupServiceError(appError);
     }
 
-    return response.data?.assignment || null;
+    const response = await apiClient.approveJoinRequest(id, requestId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.approveJoinRequest');
+      throw new GroupServiceError(appError);
+    }
   },
 
-  // Delete all assignments for a group (undo assignments)
-  async deleteAssignments(groupId: string): Promise<void> {
+  // Turn down a join request; the requester is notified
+  async denyJoinRequest(groupId: string, requestId: number): Promise<void> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -316,21 +598,21 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.deleteAssignments');
+      logError(appError, 'groupService.denyJoinRequest');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.deleteAssignments(id);
+    const response = await apiClient.denyJoinRequest(id, requestId);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.deleteAssignments');
+      logError(appError, 'groupService.denyJoinRequest');
       throw new GroupServiceError(appError);
     }
   },
 
-  // Create gift idea
-  async createGiftIdea(groupId: string, forUserId: number, idea: string, link?: string): Promise<GiftIdea> {
+  // Leave group (member can leave, but the owner has to transfer ownership first)
+  async leaveGroup(groupId: string): Promise<void> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -338,33 +620,43 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.createGiftIdea');
+      logError(appError, 'groupService.leaveGroup');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.createGiftIdea(id, forUserId, idea, link);
+    const response = await apiClient.leaveGroup(id);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.createGiftIdea');
+      logError(appError, 'groupService.leaveGroup');
       throw new GroupServiceError(appError);
     }
+  },
 
-    if (!response.data?.gift_idea) {
+  // Remove member from group
+  async removeMember(groupId: string, userId: number): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
       const appError: AppError = {
-        type: ErrorType.API,
-        message: 'No gift idea data returned',
-        userMessage: 'Failed to create gift idea. Please try again.',
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.createGiftIdea');
+      logError(appError, 'groupService.removeMember');
       throw new GroupServiceError(appError);
     }
 
-    return response.data.gift_idea;
+    const response = await apiClient.removeMember(id, userId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.removeMember');
+      throw new GroupServiceError(appError);
+    }
   },
 
-  // Get gift ideas
-  async getGiftIdeas(groupId: string, forUserId?: number): Promise<GiftIdea[]> {
+  // Add someone without an account by name; they take part in the draw like any member
+  async addPlaceholderMember(groupId: string, input: PlaceholderMemberInput): Promise<GroupMember> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -372,23 +664,59 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.getGiftIdeas');
-      return [];
+      logError(appError, 'groupService.addPlaceholderMember');
+      throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.getGiftIdeas(id, forUserId);
+    const displayName = input.display_name.trim();
+    const email = input.email?.trim() || null;
+    const phone = input.phone?.trim() || null;
+    const fieldErrors: Record<string, string> = {};
+    if (!displayName) {
+      fieldErrors.display_name = 'Name is required';
+    } else if (displayName.length > PLACEHOLDER_NAME_MAX_LENGTH) {
+      fieldErrors.display_name = `Name can be at most ${PLACEHOLDER_NAME_MAX_LENGTH} characters`;
+    }
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      fieldErrors.email = 'Enter a valid email address';
+    }
+    if (phone && !/^\+?[\d\s()/-]{5,}$/.test(phone)) {
+      fieldErrors.phone = 'Enter a valid phone number';
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid placeholder member: ${Object.keys(fieldErrors).join(', ')}`,
+        userMessage: 'Please check your input and try again.',
+        fieldErrors,
+      };
+      logError(appError, 'groupService.addPlaceholderMember');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.addPlaceholderMember(id, { display_name: displayName, email, phone });
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.getGiftIdeas');
-      return [];
+      logError(appError, 'groupService.addPlaceholderMember');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No member returned',
+        userMessage: 'Failed to add the person. Please try again.',
+      };
+      logError(appError, 'groupService.addPlaceholderMember');
+      throw new GroupServiceError(appError);
     }
 
-    return response.data?.gift_ideas || [];
+    return response.data.member;
   },
 
-  // Update gift idea
-  async updateGiftIdea(groupId: string, ideaId: number, idea: string, link?: string): Promise<GiftIdea> {
+  // Token for the link that lets the person behind a placeholder take it over
+  async getPlaceholderClaimToken(groupId: string, memberId: number): Promise<string> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -396,33 +724,80 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.updateGiftIdea');
+      logError(appError, 'groupService.getPlaceholderClaimToken');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.updateGiftIdea(id, ideaId, idea, link);
+    const response = await apiClient.getPlaceholderClaimToken(id, memberId);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.updateGiftIdea');
+      logError(appError, 'groupService.getPlaceholderClaimToken');
       throw new GroupServiceError(appError);
     }
 
-    if (!response.data?.gift_idea) {
+    if (!response.data) {
       const appError: AppError = {
         type: ErrorType.API,
-        message: 'No gift idea data returned',
-        userMessage: 'Failed to update gift idea. Please try again.',
+        message: 'No claim token returned',
+        userMessage: 'Failed to create the claim link. Please try again.',
       };
-      logError(appError, 'groupService.updateGiftIdea');
+      logError(appError, 'groupService.getPlaceholderClaimToken');
       throw new GroupServiceError(appError);
     }
 
-    return response.data.gift_idea;
+    return response.data.claim_token;
   },
 
-  // Delete gift idea
-  async deleteGiftIdea(groupId: string, ideaId: number): Promise<void> {
+  // Group and name a claim link is for; works before signing in
+  async getPlaceholderClaim(token: string): Promise<PlaceholderClaim> {
+    const response = await apiClient.getPlaceholderClaim(token);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getPlaceholderClaim');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No claim returned',
+        userMessage: 'This claim link is no longer valid.',
+      };
+      logError(appError, 'groupService.getPlaceholderClaim');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data;
+  },
+
+  // Take over a placeholder with the signed in account, including its assignment and
+  // gift ideas. Returns the group's id.
+  async claimPlaceholder(token: string): Promise<number> {
+    const response = await apiClient.claimPlaceholder(token);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.claimPlaceholder');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No group returned',
+        userMessage: 'Failed to join the group. Please try again.',
+      };
+      logError(appError, 'groupService.claimPlaceholder');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.group_id;
+  },
+
+  // Promote a member to admin or demote an admin back to member (owner only)
+  async updateMemberRole(groupId: string, userId: number, role: 'admin' | 'member'): Promise<GroupMember> {
     const id = parseInt(groupId);
     if (isNaN(id)) {
       const appError: AppError = {
@@ -430,15 +805,931 @@ export const groupService = {
         message: `Invalid group ID: ${groupId}`,
         userMessage: 'Invalid group ID',
       };
-      logError(appError, 'groupService.deleteGiftIdea');
+      logError(appError, 'groupService.updateMemberRole');
       throw new GroupServiceError(appError);
     }
 
-    const response = await apiClient.deleteGiftIdea(id, ideaId);
+    const response = await apiClient.updateMemberRole(id, userId, role);
     
     if (response.error) {
       const appError = response.appError || parseError(response.error);
-      logError(appError, 'groupService.deleteGiftIdea');
+      logError(appError, 'groupService.updateMemberRole');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.member) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No member data returned',
+        userMessage: 'Failed to change the role. Please try again.',
+      };
+      logError(appError, 'groupService.updateMemberRole');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.member;
+  },
+
+  // Offer ownership to a member; it only changes hands once they accept
+  async requestOwnershipTransfer(groupId: string, userId: number): Promise<OwnershipTransfer> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.requestOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.requestOwnershipTransfer(id, userId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.requestOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.transfer) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No transfer data returned',
+        userMessage: 'Failed to offer ownership. Please try again.',
+      };
+      logError(appError, 'groupService.requestOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.transfer;
+  },
+
+  // Withdraw a pending ownership offer (owner only)
+  async cancelOwnershipTransfer(groupId: string): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.cancelOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.cancelOwnershipTransfer(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.cancelOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Accept ownership offered to the current user; returns the group with its new owner
+  async acceptOwnershipTransfer(groupId: string): Promise<Group> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.acceptOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.acceptOwnershipTransfer(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.acceptOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.group) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No group data returned',
+        userMessage: 'Failed to accept ownership. Please try again.',
+      };
+      logError(appError, 'groupService.acceptOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.group;
+  },
+
+  // Decline ownership offered to the current user
+  async declineOwnershipTransfer(groupId: string): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.declineOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.declineOwnershipTransfer(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.declineOwnershipTransfer');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Assign Secret Santa pairs
+  async assignSecretSanta(groupId: string, options?: DrawOptions): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.assignSecretSanta');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.assignSecretSanta(id, options);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.assignSecretSanta');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Get previous draws of a group, most recent first
+  async getDrawHistory(groupId: string): Promise<ArchivedDraw[]> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getDrawHistory');
+      return [];
+    }
+
+    const response = await apiClient.getDrawHistory(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getDrawHistory');
+      return [];
+    }
+
+    return response.data?.draws || [];
+  },
+
+  // Schedule the draw to run automatically at drawAt, replacing any earlier schedule
+  async scheduleDraw(groupId: string, drawAt: Date): Promise<DrawSchedule> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.scheduleDraw');
+      throw new GroupServiceError(appError);
+    }
+
+    if (isNaN(drawAt.getTime()) || drawAt.getTime() <= Date.now()) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Draw time is not in the future: ${drawAt}`,
+        userMessage: 'Choose a time in the future for the draw.',
+      };
+      logError(appError, 'groupService.scheduleDraw');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.scheduleDraw(id, drawAt.toISOString());
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.scheduleDraw');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.draw_schedule) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No draw schedule returned',
+        userMessage: 'Failed to schedule the draw. Please try again.',
+      };
+      logError(appError, 'groupService.scheduleDraw');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.draw_schedule;
+  },
+
+  // Cancel a scheduled draw; the owner can still assign manually
+  async cancelScheduledDraw(groupId: string): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.cancelScheduledDraw');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.cancelScheduledDraw(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.cancelScheduledDraw');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Get current user's assignment
+  async getAssignment(groupId: string): Promise<CachedResult<Assignment | null>> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getAssignment');
+      return { data: null, isStale: false, updatedAt: null };
+    }
+
+    const response = await apiClient.getAssignment(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getAssignment');
+      // Serve the cached assignment when offline, null for not found or other errors
+      return fallback<Assignment | null>(cacheKeys.assignment(groupId), appError, null);
+    }
+
+    return fresh(cacheKeys.assignment(groupId), response.data?.assignment || null);
+  },
+
+  // Every pairing of a managed group, for the owner who hands out the results
+  async getAllAssignments(groupId: string): Promise<CachedResult<RoundPairing[]>> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getAllAssignments');
+      return { data: [], isStale: false, updatedAt: null };
+    }
+
+    const response = await apiClient.getAllAssignments(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getAllAssignments');
+      return fallback<RoundPairing[]>(cacheKeys.allAssignments(groupId), appError, []);
+    }
+
+    return fresh(cacheKeys.allAssignments(groupId), response.data?.pairings || []);
+  },
+
+  // The participant's unopened reveal link, so sending it again doesn't invalidate the one already sent
+  async getRevealLink(groupId: string, memberId: number): Promise<string | null> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getRevealLink');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.getRevealLink(id, memberId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getRevealLink');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data?.reveal_token ?? null;
+  },
+
+  // One-time link that shows a managed group's participant who they're giving a gift to
+  async createRevealLink(groupId: string, memberId: number): Promise<string> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.createRevealLink');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.createRevealLink(id, memberId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.createRevealLink');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No reveal token returned',
+        userMessage: 'Failed to create the link. Please try again.',
+      };
+      logError(appError, 'groupService.createRevealLink');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.reveal_token;
+  },
+
+  // Who a reveal link is for, without using it up
+  async getReveal(token: string): Promise<RevealPreview> {
+    const response = await apiClient.getReveal(token);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getReveal');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No reveal returned',
+        userMessage: 'This link is not valid. Ask the organizer for a new one.',
+      };
+      logError(appError, 'groupService.getReveal');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data;
+  },
+
+  // Shows the receiver; the link can't be opened again afterwards
+  async openReveal(token: string): Promise<Reveal> {
+    const response = await apiClient.openReveal(token);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.openReveal');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No receiver returned',
+        userMessage: 'Failed to open the link. Please try again.',
+      };
+      logError(appError, 'groupService.openReveal');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data;
+  },
+
+  // Links for the QR codes on printed slips, so participants without an account see their receiver's gift ideas
+  async createSlipLinks(groupId: string): Promise<SlipLink[]> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.createSlipLinks');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.createSlipLinks(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.createSlipLinks');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No slip links returned',
+        userMessage: 'Failed to create the slips. Please try again.',
+      };
+      logError(appError, 'groupService.createSlipLinks');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.links;
+  },
+
+  // The gift ideas behind a slip's QR code
+  async getSlipGiftIdeas(token: string): Promise<SlipGiftIdeas> {
+    const response = await apiClient.getSlipGiftIdeas(token);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getSlipGiftIdeas');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No gift ideas returned',
+        userMessage: 'This link is not valid. Ask the organizer for a new slip.',
+      };
+      logError(appError, 'groupService.getSlipGiftIdeas');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data;
+  },
+
+  // Delete all assignments for a group (undo assignments)
+  async deleteAssignments(groupId: string): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.deleteAssignments');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.deleteAssignments(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.deleteAssignments');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Create gift idea
+  async createGiftIdea(
+    groupId: string,
+    forUserId: number,
+    idea: string,
+    link?: string,
+    idempotencyKey?: string
+  ): Promise<GiftIdea> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.createGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.createGiftIdea(id, forUserId, idea, link, idempotencyKey);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.createGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.gift_idea) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No gift idea data returned',
+        userMessage: 'Failed to create gift idea. Please try again.',
+      };
+      logError(appError, 'groupService.createGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.gift_idea;
+  },
+
+  // Get gift ideas
+  async getGiftIdeas(groupId: string, forUserId?: number): Promise<CachedResult<GiftIdea[]>> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getGiftIdeas');
+      return { data: [], isStale: false, updatedAt: null };
+    }
+
+    const response = await apiClient.getGiftIdeas(id, forUserId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getGiftIdeas');
+      return fallback(cacheKeys.giftIdeas(groupId, forUserId), appError, []);
+    }
+
+    return fresh(cacheKeys.giftIdeas(groupId, forUserId), response.data?.gift_ideas || []);
+  },
+
+  // Update gift idea
+  async updateGiftIdea(groupId: string, ideaId: number, idea: string, link?: string): Promise<GiftIdea> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.updateGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.updateGiftIdea(id, ideaId, idea, link);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.updateGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.gift_idea) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No gift idea data returned',
+        userMessage: 'Failed to update gift idea. Please try again.',
+      };
+      logError(appError, 'groupService.updateGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.gift_idea;
+  },
+
+  // Delete gift idea
+  async deleteGiftIdea(groupId: string, ideaId: number): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.deleteGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.deleteGiftIdea(id, ideaId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.deleteGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Commit to buying a gift idea, so others who see the same ideas don't buy it too
+  async reserveGiftIdea(groupId: string, ideaId: number): Promise<GiftIdea> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.reserveGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.reserveGiftIdea(id, ideaId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.reserveGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.gift_idea) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No gift idea data returned',
+        userMessage: 'Failed to reserve gift idea. Please try again.',
+      };
+      logError(appError, 'groupService.reserveGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.gift_idea;
+  },
+
+  // Release a reservation made by the current user
+  async unreserveGiftIdea(groupId: string, ideaId: number): Promise<GiftIdea> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.unreserveGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.unreserveGiftIdea(id, ideaId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.unreserveGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.gift_idea) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No gift idea data returned',
+        userMessage: 'Failed to release gift idea. Please try again.',
+      };
+      logError(appError, 'groupService.unreserveGiftIdea');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.gift_idea;
+  },
+
+  // Get exclusions for a group
+  async getExclusions(groupId: string): Promise<Exclusion[]> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getExclusions');
+      return [];
+    }
+
+    const response = await apiClient.getExclusions(id);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getExclusions');
+      return [];
+    }
+
+    return response.data?.exclusions || [];
+  },
+
+  // Add exclusion (giver must not be assigned to the excluded user)
+  async addExclusion(groupId: string, giverId: number, excludedUserId: number): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.addExclusion');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.addExclusion(id, excludedUserId, giverId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.addExclusion');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Remove exclusion
+  async removeExclusion(groupId: string, exclusionId: number): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.removeExclusion');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.removeExclusion(id, exclusionId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.removeExclusion');
+      throw new GroupServiceError(appError);
+    }
+  },
+
+  // Start a new round (the current one is closed by the server)
+  async createRound(groupId: string, name: string): Promise<Round> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.createRound');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.createRound(id, name);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.createRound');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.round) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No round data returned',
+        userMessage: 'Failed to start a new round. Please try again.',
+      };
+      logError(appError, 'groupService.createRound');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.round;
+  },
+
+  // Close a round, which reveals its draw in the round history
+  async closeRound(groupId: string, roundId: number): Promise<Round> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.closeRound');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.closeRound(id, roundId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.closeRound');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.round) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No round data returned',
+        userMessage: 'Failed to close the round. Please try again.',
+      };
+      logError(appError, 'groupService.closeRound');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.round;
+  },
+
+  // Get a round with its members, exclusions and gift ideas
+  async getRound(groupId: string, roundId: number): Promise<RoundDetail> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.getRound');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.getRound(id, roundId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.getRound');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.round) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No round data returned',
+        userMessage: 'Failed to load the round. Please try again.',
+      };
+      logError(appError, 'groupService.getRound');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.round;
+  },
+
+  // Create a household
+  async createHousehold(groupId: string, name: string, memberIds: number[]): Promise<Household> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.createHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.createHousehold(id, name, memberIds);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.createHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.household) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No household data returned',
+        userMessage: 'Failed to create household. Please try again.',
+      };
+      logError(appError, 'groupService.createHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.household;
+  },
+
+  // Rename a household or change its members
+  async updateHousehold(groupId: string, householdId: number, name: string, memberIds: number[]): Promise<Household> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.updateHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.updateHousehold(id, householdId, name, memberIds);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.updateHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    if (!response.data?.household) {
+      const appError: AppError = {
+        type: ErrorType.API,
+        message: 'No household data returned',
+        userMessage: 'Failed to update household. Please try again.',
+      };
+      logError(appError, 'groupService.updateHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    return response.data.household;
+  },
+
+  // Delete a household
+  async deleteHousehold(groupId: string, householdId: number): Promise<void> {
+    const id = parseInt(groupId);
+    if (isNaN(id)) {
+      const appError: AppError = {
+        type: ErrorType.VALIDATION,
+        message: `Invalid group ID: ${groupId}`,
+        userMessage: 'Invalid group ID',
+      };
+      logError(appError, 'groupService.deleteHousehold');
+      throw new GroupServiceError(appError);
+    }
+
+    const response = await apiClient.deleteHousehold(id, householdId);
+    
+    if (response.error) {
+      const appError = response.appError || parseError(response.error);
+      logError(appError, 'groupService.deleteHousehold');
       throw new GroupServiceError(appError);
     }
   },
@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CACHE_PREFIX = '@cache/';
+
+export interface CacheEntry<T> {
+  data: T;
+  // Epoch milliseconds of when the data was last fetched from the server
+  updatedAt: number;
+}
+
+export const cacheKeys = {
+  groups: () => 'groups',
+  group: (groupId: string) => `group/${groupId}`,
+  assignment: (groupId: string) => `assignment/${groupId}`,
+  allAssignments: (groupId: string) => `all-assignments/${groupId}`,
+  giftIdeas: (groupId: string, forUserId?: number) => `gift-ideas/${groupId}/${forUserId ?? 'all'}`,
+};
+
+/**
+ * Persisted cache of the last known server data, used when the app is offline
+ */
+export const offlineCache = {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const value = await AsyncStorage.getItem(CACHE_PREFIX + key);
+      return value ? (JSON.parse(value) as CacheEntry<T>) : null;
+    } catch (error) {
+      console.error(`Error reading cache entry ${key}:`, error);
+      return null;
+    }
+  },
+
+  async set<T>(key: string, data: T): Promise<void> {
+    try {
+      const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+      await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.error(`Error writing cache entry ${key}:`, error);
+    }
+  },
+
+  async remove(key: string): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(CACHE_PREFIX + key);
+    } catch (error) {
+      console.error(`Error removing cache entry ${key}:`, error);
+    }
+  },
+
+  // Remove all cached data (e.g. on sign out, so the next user never sees it)
+  async clear(): Promise<void> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_PREFIX)));
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+    }
+  },
+};
@@ -0,0 +1,347 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { apiClient } from '../lib/api';
+import { Group, GiftIdea, Exclusion } from '../types/group';
+import { AppError, ErrorType, parseError } from '../utils/errors';
+import { groupService, GroupServiceError } from './groupService';
+
+const OUTBOX_KEY = '@outbox';
+const MIN_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Errors after which a replay is retried later instead of being treated as rejected
+const TRANSIENT_ERROR_TYPES = [ErrorType.NETWORK, ErrorType.TIMEOUT, ErrorType.SERVER];
+const TIMED_OUT_CREATE_MESSAGE = 'The server did not answer in time, so this may already have been saved. Check before retrying.';
+
+export type OutboxMutation =
+  | { type: 'createGiftIdea'; forUserId: number; idea: string; link?: string }
+  | { type: 'updateGiftIdea'; ideaId: number; idea: string; link?: string }
+  | { type: 'addExclusion'; giverId: number; excludedUserId: number }
+  | { type: 'removeExclusion'; exclusionId: number };
+
+export type SyncStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  groupId: string;
+  mutation: OutboxMutation;
+  createdAt: number;
+  status: SyncStatus;
+  // Why the server rejected the replayed write, set when status is 'failed'
+  error?: string;
+}
+
+export interface OutboxChange {
+  entries: OutboxEntry[];
+  // Entries that were successfully written to the server in this change
+  synced: OutboxEntry[];
+}
+
+type OutboxListener = (change: OutboxChange) => void;
+
+let entries: OutboxEntry[] | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = MIN_RETRY_DELAY_MS;
+const listeners = new Set<OutboxListener>();
+
+// Also the idempotency key of a queued create, so a replay the server already applied isn't applied twice
+function newEntryId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function load(): Promise<OutboxEntry[]> {
+  if (!entries) {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      entries = stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+      entries = [];
+    }
+  }
+  return entries;
+}
+
+/**
+ * Applies a change to the queue and persists it; changes are serialized so none get lost
+ */
+function update(change: (current: OutboxEntry[]) => OutboxEntry[], synced: OutboxEntry[] = []): Promise<void> {
+  writeChain = writeChain.then(async () => {
+    entries = change(await load());
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error saving outbox:', error);
+    }
+    const snapshot = entries;
+    listeners.forEach(listener => listener({ entries: snapshot, synced }));
+  });
+  return writeChain;
+}
+
+async function execute(entry: OutboxEntry): Promise<void> {
+  const { groupId, mutation } = entry;
+  switch (mutation.type) {
+    case 'createGiftIdea':
+      await groupService.createGiftIdea(groupId, mutation.forUserId, mutation.idea, mutation.link, entry.id);
+      return;
+    case 'updateGiftIdea':
+      await groupService.updateGiftIdea(groupId, mutation.ideaId, mutation.idea, mutation.link);
+      return;
+    case 'addExclusion':
+      await groupService.addExclusion(groupId, mutation.giverId, mutation.excludedUserId);
+      return;
+    case 'removeExclusion':
+      await groupService.removeExclusion(groupId, mutation.exclusionId);
+      return;
+  }
+}
+
+/**
+ * Whether a failed write may still have been applied by the server, e.g. a create that timed
+ * out after the server received it. Replaying it could then apply it twice.
+ */
+export function mayHaveBeenApplied(mutation: OutboxMutation, appError: AppError): boolean {
+  return mutation.type === 'createGiftIdea' && appError.type === ErrorType.TIMEOUT;
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    outbox.flush();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+}
+
+async function replayPending(): Promise<void> {
+  const pending = (await load()).filter(entry => entry.status === 'pending');
+
+  for (const entry of pending) {
+    try {
+      await execute(entry);
+      await update(current => current.filter(e => e.id !== entry.id), [entry]);
+      retryDelay = MIN_RETRY_DELAY_MS;
+    } catch (error: any) {
+      const appError = error instanceof GroupServiceError ? error.appError : parseError(error);
+      if (mayHaveBeenApplied(entry.mutation, appError)) {
+        // Let the user check whether it arrived before retrying, instead of risking a duplicate
+        await update(current => current.map(e => (
+          e.id === entry.id ? { ...e, status: 'failed', error: TIMED_OUT_CREATE_MESSAGE } : e
+        )));
+        continue;
+      }
+      if (TRANSIENT_ERROR_TYPES.includes(appError.type)) {
+        // Still offline; keep the order intact and try again later
+        scheduleRetry();
+        return;
+      }
+      // The server rejected the write, keep it around so the user can retry or discard it
+      await update(current => current.map(e => (
+        e.id === entry.id ? { ...e, status: 'failed', error: appError.userMessage } : e
+      )));
+    }
+  }
+}
+
+/**
+ * Durable queue of writes made while offline, replayed in order once the server is reachable
+ */
+export const outbox = {
+  async getEntries(groupId?: string): Promise<OutboxEntry[]> {
+    const current = await load();
+    return groupId ? current.filter(entry => entry.groupId === groupId) : current;
+  },
+
+  async enqueue(groupId: string, mutation: OutboxMutation): Promise<OutboxEntry> {
+    const entry: OutboxEntry = {
+      id: newEntryId(),
+      groupId,
+      mutation,
+      createdAt: Date.now(),
+      status: 'pending',
+    };
+    await update(current => [...current, entry]);
+    scheduleRetry();
+    return entry;
+  },
+
+  // Replace the mutation of a queued entry (e.g. editing a gift idea that was never synced).
+  // A failed create may have reached the server under its id, so the edit is sent as a new one.
+  async replace(entryId: string, mutation: OutboxMutation): Promise<void> {
+    await update(current => current.map(entry => {
+      if (entry.id !== entryId) return entry;
+      const id = entry.status === 'failed' && entry.mutation.type === 'createGiftIdea' ? newEntryId() : entry.id;
+      return { ...entry, id, mutation, status: 'pending', error: undefined };
+    }));
+  },
+
+  async discard(entryId: string): Promise<void> {
+    await update(current => current.filter(entry => entry.id !== entryId));
+  },
+
+  async retry(entryId: string): Promise<void> {
+    await update(current => current.map(entry => (
+      entry.id === entryId ? { ...entry, status: 'pending', error: undefined } : entry
+    )));
+    await outbox.flush();
+  },
+
+  flush(): Promise<void> {
+    if (!flushPromise) {
+      flushPromise = writeChain
+        .then(replayPending)
+        .catch(error => console.error('Error replaying outbox:', error))
+        .finally(() => {
+          flushPromise = null;
+        });
+    }
+    return flushPromise;
+  },
+
+  subscribe(listener: OutboxListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Replay whenever connectivity returns or the app comes back to the foreground
+  start(): () => void {
+    const removeConnectivityListener = apiClient.addConnectivityListener((isOnline) => {
+      if (isOnline) {
+        outbox.flush();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        outbox.flush();
+      }
+    });
+    outbox.flush();
+
+    return () => {
+      removeConnectivityListener();
+      appStateSubscription.remove();
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+    };
+  },
+
+  // Drop all queued writes (e.g. on sign out, so they are never replayed for another account)
+  async clear(): Promise<void> {
+    await update(() => []);
+  },
+};
+
+// Optimistic views: server data with queued writes applied on top
+
+export type OptimisticGiftIdea = GiftIdea & {
+  outboxEntryId?: string;
+  syncStatus?: SyncStatus;
+};
+
+export type OptimisticExclusion = Exclusion & {
+  outboxEntryId?: string;
+  syncStatus?: SyncStatus;
+};
+
+function findMember(group: Group, userId: number) {
+  const member = group.members?.find(m => m.id === userId)
+    || (group.owner?.id === userId ? group.owner : undefined);
+  return {
+    id: userId,
+    username: member?.username || '',
+    display_name: member?.display_name || member?.username || 'Unknown',
+  };
+}
+
+export function applyPendingGiftIdeas(
+  ideas: GiftIdea[],
+  pending: OutboxEntry[],
+  group: Group,
+  userId: number
+): OptimisticGiftIdea[] {
+  const result: OptimisticGiftIdea[] = [...ideas];
+  pending.forEach((entry) => {
+    const { mutation } = entry;
+    if (mutation.type === 'updateGiftIdea') {
+      const index = result.findIndex(idea => idea.id === mutation.ideaId);
+      if (index !== -1) {
+        result[index] = {
+          ...result[index],
+          idea: mutation.idea,
+          link: mutation.link ?? null,
+          outboxEntryId: entry.id,
+          syncStatus: entry.status,
+        };
+      }
+    } else if (mutation.type === 'createGiftIdea') {
+      const createdAt = new Date(entry.createdAt).toISOString();
+      result.push({
+        // Negative ids never collide with server ids
+        id: -entry.createdAt,
+        group_id: group.id,
+        for_user_id: mutation.forUserId,
+        created_by_id: userId,
+        idea: mutation.idea,
+        link: mutation.link ?? null,
+        created_at: createdAt,
+        updated_at: createdAt,
+        created_by: findMember(group, userId),
+        for_user: findMember(group, mutation.forUserId),
+        outboxEntryId: entry.id,
+        syncStatus: entry.status,
+      });
+    }
+  });
+  return result;
+}
+
+export function applyPendingExclusions(
+  exclusions: Exclusion[],
+  pending: OutboxEntry[],
+  group: Group
+): OptimisticExclusion[] {
+  const removed = new Set<number>();
+  const added: OptimisticExclusion[] = [];
+  pending.forEach((entry) => {
+    const { mutation } = entry;
+    if (mutation.type === 'removeExclusion' && entry.status === 'pending') {
+      removed.add(mutation.exclusionId);
+    } else if (mutation.type === 'addExclusion') {
+      const giver = findMember(group, mutation.giverId);
+      const excluded = findMember(group, mutation.excludedUserId);
+      added.push({
+        id: -entry.createdAt,
+        giver_id: giver.id,
+        excluded_user_id: excluded.id,
+        giver_username: giver.username,
+        giver_display_name: giver.display_name,
+        excluded_username: excluded.username,
+        excluded_display_name: excluded.display_name,
+        outboxEntryId: entry.id,
+        syncStatus: entry.status,
+      });
+    }
+  });
+  return [...exclusions.filter(ex => !removed.has(ex.id)), ...added];
+}
+
+export function describeMutation(entry: OutboxEntry, group: Group): string {
+  const { mutation } = entry;
+  switch (mutation.type) {
+    case 'createGiftIdea':
+      return `New gift idea for ${findMember(group, mutation.forUserId).display_name}: "${mutation.idea}"`;
+    case 'updateGiftIdea':
+      return `Edit gift idea: "${mutation.idea}"`;
+    case 'addExclusion':
+      return `Exclusion: ${findMember(group, mutation.giverId).display_name} → ${findMember(group, mutation.excludedUserId).display_name}`;
+    case 'removeExclusion':
+      return 'Remove exclusion';
+  }
+}
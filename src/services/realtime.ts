@@ -0,0 +1,265 @@
+import { AppState } from 'react-native';
+import { apiClient } from '../lib/api';
+import * as v from '../lib/validation';
+import { parseError, logError } from '../utils/errors';
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Failed connection attempts after which subscribers are kept up to date by polling
+const POLLING_AFTER_ATTEMPTS = 3;
+const POLL_INTERVAL_MS = 30000;
+// Close code the server uses when the access token is missing or expired
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+export type RealtimeEventType =
+  | 'group_updated'
+  | 'group_deleted'
+  | 'member_joined'
+  | 'member_left'
+  | 'member_removed'
+  | 'member_role_changed'
+  | 'placeholder_claimed'
+  | 'ownership_transfer_requested'
+  | 'ownership_transfer_cancelled'
+  | 'ownership_transferred'
+  | 'invitation_created'
+  | 'invitation_accepted'
+  | 'invitation_rejected'
+  | 'invitation_cancelled'
+  | 'join_requested'
+  | 'join_request_approved'
+  | 'join_request_denied'
+  | 'exclusion_added'
+  | 'exclusion_removed'
+  | 'assignments_created'
+  | 'assignments_deleted'
+  | 'draw_scheduled'
+  | 'draw_schedule_cancelled'
+  | 'reveal_opened'
+  | 'gift_idea_created'
+  | 'gift_idea_updated'
+  | 'gift_idea_deleted'
+  | 'gift_idea_reserved'
+  | 'gift_idea_unreserved'
+  | 'round_created'
+  | 'round_closed';
+
+export interface RealtimeEvent {
+  // 'resync' is emitted locally when events may have been missed (reconnect or polling tick)
+  type: RealtimeEventType | 'resync';
+  group_id?: number;
+  // User whose action caused the event; left out of gift idea reservations, which stay anonymous
+  actor_id?: number;
+  // User the event is about, e.g. the member who joined or was removed
+  user_id?: number;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export const realtimeChannels = {
+  // Changes to a single group the user is a member of
+  group: (groupId: string) => `group:${groupId}`,
+  // Changes to the user's list of groups and invitations, and reservations on gift ideas the
+  // user may see; these are never sent to the person an idea is for
+  user: () => 'user',
+};
+
+const messageSchema = v.object<{ channel: string; event: RealtimeEvent }>({
+  channel: v.string,
+  event: v.object<RealtimeEvent>({
+    type: v.literal<RealtimeEventType>(
+      'group_updated', 'group_deleted',
+      'member_joined', 'member_left', 'member_removed', 'member_role_changed',
+      'placeholder_claimed',
+      'ownership_transfer_requested', 'ownership_transfer_cancelled', 'ownership_transferred',
+      'invitation_created', 'invitation_accepted', 'invitation_rejected', 'invitation_cancelled',
+      'join_requested', 'join_request_approved', 'join_request_denied',
+      'exclusion_added', 'exclusion_removed',
+      'assignments_created', 'assignments_deleted',
+      'draw_scheduled', 'draw_schedule_cancelled', 'reveal_opened',
+      'gift_idea_created', 'gift_idea_updated', 'gift_idea_deleted',
+      'gift_idea_reserved', 'gift_idea_unreserved',
+      'round_created', 'round_closed'
+    ),
+    group_id: v.optional(v.number),
+    actor_id: v.optional(v.number),
+    user_id: v.optional(v.number),
+  }),
+});
+
+const REALTIME_URL = process.env.EXPO_PUBLIC_REALTIME_URL
+  || `${apiClient.getBaseUrl().replace(/^http/, 'ws')}/api/realtime`;
+
+const channels = new Map<string, Set<RealtimeListener>>();
+let socket: WebSocket | null = null;
+let failedAttempts = 0;
+let hasConnected = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let stopWatchers: (() => void) | null = null;
+
+function emit(channel: string, event: RealtimeEvent) {
+  channels.get(channel)?.forEach(listener => listener(event));
+}
+
+function emitResync() {
+  channels.forEach((_, channel) => emit(channel, { type: 'resync' }));
+}
+
+function send(message: { type: 'subscribe' | 'unsubscribe'; channel: string }) {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function startPolling() {
+  if (pollTimer) return;
+  pollTimer = setInterval(emitResync, POLL_INTERVAL_MS);
+}
+
+function stopPolling() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * Reconnects with exponential backoff and full jitter, polling once the socket keeps failing
+ */
+function scheduleReconnect() {
+  if (reconnectTimer || channels.size === 0) return;
+  failedAttempts += 1;
+  if (failedAttempts >= POLLING_AFTER_ATTEMPTS) {
+    startPolling();
+  }
+  const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, MIN_RECONNECT_DELAY_MS * 2 ** (failedAttempts - 1));
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, Math.round(Math.random() * ceiling));
+}
+
+function handleMessage(data: unknown) {
+  try {
+    const message = messageSchema(JSON.parse(String(data)), 'message');
+    emit(message.channel, message.event);
+  } catch (error) {
+    // Unknown or malformed events (e.g. from a newer server) are ignored
+    logError(parseError(error), 'realtime.handleMessage');
+  }
+}
+
+function connect() {
+  const token = apiClient.getToken();
+  if (socket || channels.size === 0 || !token) return;
+
+  if (typeof WebSocket === 'undefined') {
+    startPolling();
+    return;
+  }
+
+  const ws = new WebSocket(`${REALTIME_URL}?token=${encodeURIComponent(token)}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    failedAttempts = 0;
+    stopPolling();
+    channels.forEach((_, channel) => send({ type: 'subscribe', channel }));
+    // Anything that happened while disconnected was missed
+    if (hasConnected) {
+      emitResync();
+    }
+    hasConnected = true;
+  };
+
+  ws.onmessage = (event) => handleMessage(event.data);
+
+  ws.onclose = async (event) => {
+    if (socket !== ws) return;
+    socket = null;
+    if (channels.size === 0) return;
+
+    if (event.code === UNAUTHORIZED_CLOSE_CODE && await apiClient.refreshSession()) {
+      connect();
+      return;
+    }
+    scheduleReconnect();
+  };
+}
+
+function reconnectNow() {
+  if (socket || channels.size === 0) return;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  connect();
+}
+
+function start() {
+  // Don't wait for the backoff once the app is back in the foreground or the API is reachable again
+  const removeConnectivityListener = apiClient.addConnectivityListener((isOnline) => {
+    if (isOnline) {
+      reconnectNow();
+    }
+  });
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      reconnectNow();
+    }
+  });
+  stopWatchers = () => {
+    removeConnectivityListener();
+    appStateSubscription.remove();
+  };
+  connect();
+}
+
+function stop() {
+  stopWatchers?.();
+  stopWatchers = null;
+  stopPolling();
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  failedAttempts = 0;
+  hasConnected = false;
+}
+
+/**
+ * Live updates pushed by the server over a single WebSocket shared by all subscribers
+ */
+export const realtime = {
+  subscribe(channel: string, listener: RealtimeListener): () => void {
+    const isFirstChannel = channels.size === 0;
+    let listeners = channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      channels.set(channel, listeners);
+      send({ type: 'subscribe', channel });
+    }
+    listeners.add(listener);
+
+    if (isFirstChannel) {
+      start();
+    }
+
+    return () => {
+      const current = channels.get(channel);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size > 0) return;
+
+      channels.delete(channel);
+      send({ type: 'unsubscribe', channel });
+      if (channels.size === 0) {
+        stop();
+      }
+    };
+  },
+};
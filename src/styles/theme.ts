@@ -4,6 +4,8 @@ export const colors = {
   primary: '#007AFF',
   success: '#34C759',
   danger: '#FF3B30',
+  warning: '#FF9500',
+  warningBackground: '#FFF4E5',
   background: '#fff',
   surface: '#f5f5f5',
   border: '#e0e0e0',
@@ -1,9 +1,32 @@
+// 'owner' is the creator; admins can do everything to run the exchange except edit or delete the group
+export type GroupRole = 'owner' | 'admin' | 'member';
+
 export interface GroupMember {
   id: number;
   username: string;
   display_name: string;
   image_url?: string | null;
   joined_at: string;
+  role?: GroupRole;
+  // Added by name for someone without an account; they can claim it later via a claim link
+  is_placeholder?: boolean;
+  // Contact details of a placeholder, plain data only shown to the owner and admins
+  email?: string | null;
+  phone?: string | null;
+  // Managed groups: when the participant opened their reveal link
+  revealed_at?: string | null;
+}
+
+export interface PlaceholderMemberInput {
+  display_name: string;
+  email: string | null;
+  phone: string | null;
+}
+
+// What a claim link shows before signing in, so the person knows who they'll become
+export interface PlaceholderClaim {
+  group: GroupPreview;
+  display_name: string;
 }
 
 export interface GroupOwner {
@@ -21,30 +44,187 @@ export interface PendingInvitation {
   invited_at: string;
 }
 
+// Someone who used an invite link that requires approval and is waiting to be let in
+export interface JoinRequest {
+  id: number;
+  user_id: number;
+  username: string;
+  display_name: string;
+  image_url?: string | null;
+  requested_at: string;
+}
+
 export interface Group {
   id: number;
   name: string;
-  description?: string;
+  description?: string | null;
   image_url?: string | null;
+  // When and where the gifts are exchanged; the date is a calendar date ('YYYY-MM-DD')
+  // and the time a local time of day ('HH:MM')
+  event_date?: string | null;
+  event_time?: string | null;
+  location?: string | null;
+  // Spending limit per gift, in currency (an ISO 4217 code such as 'EUR')
+  budget?: number | null;
+  currency?: string | null;
+  rules?: string | null;
   created_at: string;
   created_by: number;
   member_count?: number;
   members?: GroupMember[];
   owner?: GroupOwner;
   pending_invitations?: PendingInvitation[];
+  join_requests?: JoinRequest[];
+  // Members of the same household never draw each other; the server applies this when the draw runs
+  households?: Household[];
+  // Rounds of the exchange (e.g. one per year), most recent first
+  rounds?: Round[];
+  current_round?: Round | null;
+  // Set while the owner has scheduled the draw to run automatically
+  draw_schedule?: DrawSchedule | null;
+  // Set while the owner has offered ownership to a member who hasn't answered yet
+  pending_transfer?: OwnershipTransfer | null;
+  // Organizer-managed: the owner enters the participants (placeholders), runs the draw and
+  // hands out the results, and doesn't take part in the draw themselves
+  is_managed?: boolean;
+}
+
+export interface OwnershipTransfer {
+  id: number;
+  from_user_id: number;
+  to_user_id: number;
+  created_at: string;
 }
 
+// Fields of a group the owner can change; omitted fields are left as they are
+export interface GroupUpdate {
+  name?: string;
+  description?: string | null;
+  image_url?: string | null;
+  event_date?: string | null;
+  event_time?: string | null;
+  location?: string | null;
+  budget?: number | null;
+  currency?: string | null;
+  rules?: string | null;
+}
+
+export type RoundStatus = 'open' | 'closed';
+
+export interface Round {
+  id: number;
+  name: string;
+  status: RoundStatus;
+  created_at: string;
+  closed_at?: string | null;
+}
+
+export interface RoundPairing {
+  giver_id: number;
+  giver_display_name: string;
+  receiver_id: number;
+  receiver_display_name: string;
+}
+
+// A round as it was: members, exclusions and gift ideas at the time. Its draw is the
+// archived draw with the round's id, and gift ideas are only those the user could see then
+export interface RoundDetail extends Round {
+  members: GroupMember[];
+  exclusions: Exclusion[];
+  gift_ideas: GiftIdea[];
+}
+
+// Members of a household are never drawn for each other
+export interface Household {
+  id: number;
+  name: string;
+  member_ids: number[];
+}
+
+export interface GroupPreview {
+  id: number;
+  name: string;
+  description?: string | null;
+  image_url?: string | null;
+}
+
+/**
+ * The group's shareable invite link. Regenerating it replaces the token, so the old link
+ * stops working; a null token means the link has been revoked.
+ */
+export interface InviteLink {
+  invite_token: string | null;
+  expires_at?: string | null;
+  // null for unlimited
+  max_uses?: number | null;
+  // How many people have joined with the current token
+  use_count?: number;
+  // Joining creates a join request the owner or an admin has to approve
+  requires_approval?: boolean;
+  // Can be typed in instead of opening the link and works wherever the token does
+  short_code?: string | null;
+}
+
+export interface InviteLinkSettings {
+  expires_at: string | null;
+  max_uses: number | null;
+  requires_approval: boolean;
+}
+
+// 'pending' when the link requires approval and a join request was created instead
+export type JoinStatus = 'joined' | 'pending';
+
 export interface Invitation {
   id: number;
   group_id: number;
   inviter_id: number;
   created_at: string;
   group_name: string;
-  group_description?: string;
+  group_description?: string | null;
   inviter_username: string;
   inviter_display_name: string;
 }
 
+// Outcome for one username of a bulk invite
+export interface BulkInviteResult {
+  username: string;
+  invited: boolean;
+  // Why no invitation was sent, e.g. the user joined in the meantime
+  error?: string | null;
+}
+
+// What a reveal link shows before it is opened; opening it uses it up
+export interface RevealPreview {
+  group: GroupPreview;
+  giver_display_name: string;
+  event_date?: string | null;
+  budget?: number | null;
+  currency?: string | null;
+}
+
+export interface Reveal {
+  receiver_display_name: string;
+}
+
+// A printed slip's link to the gift ideas for whoever its giver draws, usable without an account
+export interface SlipLink {
+  giver_id: number;
+  token: string;
+}
+
+export interface SlipGiftIdea {
+  id: number;
+  idea: string;
+  link?: string | null;
+}
+
+// What a slip's QR code opens: the receiver's gift ideas, without who reserved them
+export interface SlipGiftIdeas {
+  group: GroupPreview;
+  receiver_display_name: string;
+  gift_ideas: SlipGiftIdea[];
+}
+
 export interface Assignment {
   receiver_id: number;
   receiver_username: string;
@@ -52,6 +232,38 @@ export interface Assignment {
   receiver_image_url?: string | null;
 }
 
+export interface DrawPairing {
+  giver_id: number;
+  receiver_id: number;
+}
+
+// A completed draw, kept so later draws can avoid repeating its pairings
+export interface ArchivedDraw {
+  id: number;
+  // The round the draw was made in
+  round_id?: number | null;
+  drawn_at: string;
+  pairings: DrawPairing[];
+}
+
+// 'hard' never repeats a previous pairing, 'soft' only avoids repeats where possible
+export type HistoryMode = 'soft' | 'hard';
+
+export interface DrawOptions {
+  avoidPreviousRounds: number;
+  historyMode: HistoryMode;
+}
+
+/**
+ * A draw the server runs at draw_at: pending invitations expire, assignments are made
+ * with the exclusions at that time and members are notified
+ */
+export interface DrawSchedule {
+  draw_at: string;
+  scheduled_by: number;
+  created_at: string;
+}
+
 export interface GiftIdeaUser {
   id: number;
   username: string;
@@ -69,6 +281,9 @@ export interface GiftIdea {
   updated_at: string;
   created_by: GiftIdeaUser;
   for_user: GiftIdeaUser;
+  // Whether someone committed to buying it; left out for the person the idea is for
+  is_reserved?: boolean;
+  reserved_by_me?: boolean;
 }
 
 export interface Exclusion {
@@ -0,0 +1,6 @@
+export interface User {
+  id: number;
+  username: string;
+  display_name: string;
+  image_url?: string | null;
+}
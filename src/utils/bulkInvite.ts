@@ -0,0 +1,101 @@
+import { Group } from '../types/group';
+import { User } from '../types/user';
+
+/**
+ * Where a username from a bulk invite stands: 'ready' can be invited, 'invited' and
+ * 'failed' are the outcome after sending
+ */
+export type BulkInviteStatus = 'unknown' | 'self' | 'member' | 'pending' | 'ready' | 'invited' | 'failed';
+
+export interface BulkInviteRow {
+  username: string;
+  status: BulkInviteStatus;
+  user?: User;
+  error?: string | null;
+}
+
+export const BULK_INVITE_STATUS_LABELS: Record<BulkInviteStatus, string> = {
+  unknown: 'Not found',
+  self: "That's you",
+  member: 'Already a member',
+  pending: 'Already invited',
+  ready: 'Ready to invite',
+  invited: 'Invited',
+  failed: 'Failed',
+};
+
+const SEPARATORS = /[,;\t]/;
+
+function cleanUsername(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, '').trim().replace(/^@/, '');
+}
+
+/**
+ * Usernames from a pasted list or CSV, one per line or separated by commas, semicolons
+ * or tabs. A CSV with a "username" header only uses that column. Duplicates are dropped,
+ * ignoring case.
+ */
+export function parseUsernameList(text: string): string[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(SEPARATORS).map(cell => cleanUsername(cell).toLowerCase());
+  const usernameColumn = header.indexOf('username');
+  const cells = usernameColumn >= 0
+    ? lines.slice(1).map(line => line.split(SEPARATORS)[usernameColumn] ?? '')
+    : lines.flatMap(line => line.split(SEPARATORS));
+
+  const seen = new Set<string>();
+  const usernames: string[] = [];
+  for (const cell of cells) {
+    // Usernames can't contain spaces, so lists separated by spaces work too
+    for (const username of cleanUsername(cell).split(/\s+/)) {
+      const clean = cleanUsername(username);
+      if (!clean || seen.has(clean.toLowerCase())) continue;
+      seen.add(clean.toLowerCase());
+      usernames.push(clean);
+    }
+  }
+  return usernames;
+}
+
+/**
+ * Checks each username against the users found and the group's members and pending
+ * invitations. `users` is keyed by lower case username.
+ */
+export function classifyUsernames(
+  usernames: string[],
+  users: Map<string, User>,
+  group: Group,
+  currentUserId: number | null
+): BulkInviteRow[] {
+  const memberIds = new Set((group.members || []).map(m => m.id));
+  const pendingIds = new Set((group.pending_invitations || []).map(i => i.id));
+
+  return usernames.map((username) => {
+    const user = users.get(username.toLowerCase());
+    if (!user) return { username, status: 'unknown' };
+    if (user.id === currentUserId) return { username, status: 'self', user };
+    if (memberIds.has(user.id) || user.id === group.created_by) return { username, status: 'member', user };
+    if (pendingIds.has(user.id)) return { username, status: 'pending', user };
+    return { username, status: 'ready', user };
+  });
+}
+
+/**
+ * Counts per outcome, e.g. "12 invited · 2 failed · 3 skipped"
+ */
+export function bulkInviteSummary(rows: BulkInviteRow[]): string {
+  const count = (statuses: BulkInviteStatus[]) => rows.filter(row => statuses.includes(row.status)).length;
+  const parts = [
+    [count(['ready']), 'ready'],
+    [count(['invited']), 'invited'],
+    [count(['failed']), 'failed'],
+    [count(['unknown']), 'not found'],
+    [count(['self', 'member', 'pending']), 'skipped'],
+  ] as const;
+  return parts
+    .filter(([n]) => n > 0)
+    .map(([n, label]) => `${n} ${label}`)
+    .join(' · ');
+}
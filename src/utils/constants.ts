@@ -2,3 +2,26 @@
 export const APP_STORE_URL = 'https://apps.apple.com/us/app/geschenk25/id6755076791';
 export const PLAY_STORE_URL = 'https://play.google.com/store/apps/details?id=com.tomba07.geschenk25';
 
+// Group detail limits, enforced by the API as well
+export const GROUP_NAME_MAX_LENGTH = 100;
+export const GROUP_DESCRIPTION_MAX_LENGTH = 500;
+export const GROUP_LOCATION_MAX_LENGTH = 200;
+export const GROUP_RULES_MAX_LENGTH = 1000;
+export const PLACEHOLDER_NAME_MAX_LENGTH = 50;
+
+// Currencies offered for the spending limit, most common first
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF'];
+
+// Choices offered for how long an invite link stays valid and how often it can be used
+export const INVITE_LINK_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+export const INVITE_LINK_MAX_USES_OPTIONS: (number | null)[] = [null, 5, 10, 25];
+
+// Most usernames a bulk invite checks and sends at once
+export const BULK_INVITE_MAX_USERNAMES = 100;
+// Username lookups running at the same time while checking a bulk invite
+export const BULK_INVITE_LOOKUP_CONCURRENCY = 5;
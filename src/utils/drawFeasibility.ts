@@ -0,0 +1,161 @@
+import { Exclusion, ArchivedDraw } from '../types/group';
+
+export interface DrawMember {
+  id: number;
+  name: string;
+}
+
+export type DrawConstraint = Pick<Exclusion, 'giver_id' | 'excluded_user_id'>;
+
+export interface DrawFeasibility {
+  feasible: boolean;
+  // Smallest group of members found whose exclusions can't all be satisfied together
+  overConstrained: DrawMember[];
+  // The members they can still be matched with between them (fewer than overConstrained)
+  candidates: DrawMember[];
+  // Whether overConstrained lacks recipients to give to or givers to receive from
+  side: 'givers' | 'receivers' | null;
+  explanation: string | null;
+}
+
+function formatNames(members: DrawMember[]): string {
+  const names = members.map(m => m.name);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+function explain(side: 'givers' | 'receivers', overConstrained: DrawMember[], candidates: DrawMember[]): string {
+  const names = formatNames(overConstrained);
+  if (side === 'givers') {
+    return candidates.length === 0
+      ? `${names} can't give a gift to anyone.`
+      : `${names} can only give gifts to ${formatNames(candidates)}, so one of them would be left without someone to gift.`;
+  }
+  return candidates.length === 0
+    ? `Nobody is allowed to give a gift to ${names}.`
+    : `${names} can only receive gifts from ${formatNames(candidates)}, so one of them would be left without a gift.`;
+}
+
+/**
+ * Maximum bipartite matching (augmenting paths) of givers to receivers.
+ * Returns the receiver matched to each giver index, or -1.
+ */
+function maximumMatching(allowed: boolean[][]): number[] {
+  const n = allowed.length;
+  const receiverOf = new Array<number>(n).fill(-1);
+  const giverOf = new Array<number>(n).fill(-1);
+
+  const augment = (giver: number, visited: boolean[]): boolean => {
+    for (let receiver = 0; receiver < n; receiver++) {
+      if (!allowed[giver][receiver] || visited[receiver]) continue;
+      visited[receiver] = true;
+      if (giverOf[receiver] === -1 || augment(giverOf[receiver], visited)) {
+        receiverOf[giver] = receiver;
+        giverOf[receiver] = giver;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (let giver = 0; giver < n; giver++) {
+    augment(giver, new Array<boolean>(n).fill(false));
+  }
+  return receiverOf;
+}
+
+/**
+ * Finds a set violating Hall's condition: everything reachable over alternating paths
+ * from an unmatched vertex. Its neighbourhood is one smaller than the set itself.
+ */
+function hallViolator(allowed: boolean[][], matchOf: number[], start: number): { set: number[]; neighbours: number[] } {
+  const n = allowed.length;
+  // matchOf maps a vertex of this side to its partner; invert it to walk back along matched edges
+  const partnerOf = new Array<number>(n).fill(-1);
+  matchOf.forEach((partner, vertex) => {
+    if (partner !== -1) partnerOf[partner] = vertex;
+  });
+
+  const inSet = new Array<boolean>(n).fill(false);
+  const inNeighbours = new Array<boolean>(n).fill(false);
+  const queue = [start];
+  inSet[start] = true;
+
+  while (queue.length > 0) {
+    const vertex = queue.shift()!;
+    for (let other = 0; other < n; other++) {
+      if (!allowed[vertex][other] || inNeighbours[other]) continue;
+      inNeighbours[other] = true;
+      // In a maximum matching every neighbour of the set is matched
+      const next = partnerOf[other];
+      if (next !== -1 && !inSet[next]) {
+        inSet[next] = true;
+        queue.push(next);
+      }
+    }
+  }
+
+  return {
+    set: inSet.flatMap((included, index) => (included ? [index] : [])),
+    neighbours: inNeighbours.flatMap((included, index) => (included ? [index] : [])),
+  };
+}
+
+/**
+ * Checks whether every member can be assigned someone to gift, given that nobody gifts
+ * themselves and no giver is assigned a member they are excluded from.
+ */
+export function checkDrawFeasibility(members: DrawMember[], exclusions: DrawConstraint[]): DrawFeasibility {
+  const n = members.length;
+  const indexOf = new Map(members.map((member, index) => [member.id, index]));
+
+  // allowed[giver][receiver]
+  const allowed = members.map((_, giver) => members.map((__, receiver) => giver !== receiver));
+  exclusions.forEach((ex) => {
+    const giver = indexOf.get(ex.giver_id);
+    const receiver = indexOf.get(ex.excluded_user_id);
+    // Exclusions of members who have left the group don't constrain the draw
+    if (giver !== undefined && receiver !== undefined) {
+      allowed[giver][receiver] = false;
+    }
+  });
+
+  const receiverOf = maximumMatching(allowed);
+  const unmatchedGiver = receiverOf.indexOf(-1);
+  if (unmatchedGiver === -1) {
+    return { feasible: true, overConstrained: [], candidates: [], side: null, explanation: null };
+  }
+
+  // A deficient matching leaves a giver and a receiver unmatched; explain whichever side is smaller
+  const giverOf = new Array<number>(n).fill(-1);
+  receiverOf.forEach((receiver, giver) => {
+    if (receiver !== -1) giverOf[receiver] = giver;
+  });
+  const unmatchedReceiver = giverOf.indexOf(-1);
+  const transposed = members.map((_, receiver) => members.map((__, giver) => allowed[giver][receiver]));
+
+  const givers = hallViolator(allowed, receiverOf, unmatchedGiver);
+  const receivers = hallViolator(transposed, giverOf, unmatchedReceiver);
+  const side = receivers.set.length < givers.set.length ? 'receivers' : 'givers';
+  const violator = side === 'givers' ? givers : receivers;
+
+  const overConstrained = violator.set.map(index => members[index]);
+  const candidates = violator.neighbours.map(index => members[index]);
+  return {
+    feasible: false,
+    overConstrained,
+    candidates,
+    side,
+    explanation: explain(side, overConstrained, candidates),
+  };
+}
+
+/**
+ * Pairings of the given number of most recent draws, as exclusions so they aren't repeated
+ */
+export function previousPairings(draws: ArchivedDraw[], rounds: number): DrawConstraint[] {
+  return [...draws]
+    .sort((a, b) => new Date(b.drawn_at).getTime() - new Date(a.drawn_at).getTime())
+    .slice(0, rounds)
+    .flatMap(draw => draw.pairings.map(p => ({ giver_id: p.giver_id, excluded_user_id: p.receiver_id })));
+}
@@ -4,6 +4,7 @@
 
 export enum ErrorType {
   NETWORK = 'NETWORK',
+  TIMEOUT = 'TIMEOUT',
   API = 'API',
   VALIDATION = 'VALIDATION',
   AUTHENTICATION = 'AUTHENTICATION',
@@ -19,16 +20,73 @@ export interface AppError {
   originalError?: any;
   statusCode?: number;
   userMessage: string;
+  // Per-field messages of a validation error, keyed by request field (e.g. 'name')
+  fieldErrors?: Record<string, string>;
+  // Machine-readable reason sent by the API for errors the app explains specifically
+  code?: string;
+}
+
+/**
+ * Error codes the API sends alongside the HTTP status
+ */
+export const ErrorCode = {
+  INVITE_INVALID: 'invite_invalid',
+  INVITE_EXPIRED: 'invite_expired',
+  INVITE_REVOKED: 'invite_revoked',
+  INVITE_EXHAUSTED: 'invite_exhausted',
+  REVEAL_INVALID: 'reveal_invalid',
+  REVEAL_USED: 'reveal_used',
+  GIFT_IDEA_RESERVED: 'gift_idea_reserved',
+} as const;
+
+const codeMessages: Record<string, string> = {
+  [ErrorCode.INVITE_INVALID]: 'This invite link is not valid. Check that you copied the whole link.',
+  [ErrorCode.INVITE_EXPIRED]: 'This invite link has expired. Ask the group owner for a new one.',
+  [ErrorCode.INVITE_REVOKED]: 'This invite link has been turned off by the group owner. Ask them for a new one.',
+  [ErrorCode.INVITE_EXHAUSTED]: 'This invite link has been used the maximum number of times. Ask the group owner for a new one.',
+  [ErrorCode.REVEAL_INVALID]: 'This link is not valid. Ask the organizer for a new one.',
+  [ErrorCode.REVEAL_USED]: 'This link has already been opened. Ask the organizer for a new one.',
+  [ErrorCode.GIFT_IDEA_RESERVED]: 'Someone else has already reserved this idea.',
+};
+
+// The specific message for an API error code, if the app knows it
+export function getCodeMessage(code: string | undefined): string | undefined {
+  return code ? codeMessages[code] : undefined;
+}
+
+export function isInviteLinkError(error: AppError | undefined): boolean {
+  return !!error?.code && error.code.startsWith('invite_');
+}
+
+/**
+ * Extracts field-level messages from a validation error response, e.g.
+ * { errors: { name: 'Name is too long' } } or { errors: { name: ['Name is too long'] } }
+ */
+export function parseFieldErrors(errors: unknown): Record<string, string> | undefined {
+  if (typeof errors !== 'object' || errors === null || Array.isArray(errors)) {
+    return undefined;
+  }
+  const fieldErrors: Record<string, string> = {};
+  Object.entries(errors as Record<string, unknown>).forEach(([field, value]) => {
+    const message = Array.isArray(value) ? value[0] : value;
+    if (typeof message === 'string') {
+      fieldErrors[field] = message;
+    }
+  });
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
 }
 
 /**
  * Creates a user-friendly error message based on error type
  */
-function getUserMessage(type: ErrorType, message: string, statusCode?: number): string {
+export function getUserMessage(type: ErrorType, message: string, statusCode?: number): string {
   switch (type) {
     case ErrorType.NETWORK:
       return 'Unable to connect to the server. Please check your internet connection and try again.';
     
+    case ErrorType.TIMEOUT:
+      return 'The server is taking too long to respond. Please check your connection and try again.';
+    
     case ErrorType.AUTHENTICATION:
       return 'Your session has expired. Please log in again.';
     
@@ -80,6 +138,16 @@ export function parseError(error: any): AppError {
     };
   }
 
+  // Aborted requests (e.g. cancelled by a timeout)
+  if (error?.name === 'AbortError') {
+    return {
+      type: ErrorType.TIMEOUT,
+      message: error.message || 'Request aborted',
+      originalError: error,
+      userMessage: getUserMessage(ErrorType.TIMEOUT, error.message),
+    };
+  }
+
   // Check if it's already an AppError
   if (error && typeof error === 'object' && 'type' in error && 'userMessage' in error) {
     return error as AppError;
@@ -180,6 +248,13 @@ export function parseError(error: any): AppError {
   };
 }
 
+/**
+ * Whether the error means the server could not be reached (offline, flaky connection)
+ */
+export function isConnectivityError(error: AppError): boolean {
+  return error.type === ErrorType.NETWORK || error.type === ErrorType.TIMEOUT;
+}
+
 /**
  * Logs an error for debugging (can be extended to send to error tracking service)
  */
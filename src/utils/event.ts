@@ -0,0 +1,143 @@
+import { Group } from '../types/group';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Event dates are calendar dates ('YYYY-MM-DD') in the exchange's local time, not instants
+function parseDate(date: string): Date | null {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const parsed = new Date(year, month - 1, day);
+  // Rejects dates that roll over, e.g. 2025-02-30
+  return parsed.getMonth() === month - 1 && parsed.getDate() === day ? parsed : null;
+}
+
+export function isValidEventDate(date: string): boolean {
+  return parseDate(date) !== null;
+}
+
+export function isValidEventTime(time: string): boolean {
+  const match = TIME_PATTERN.exec(time);
+  return !!match && Number(match[1]) < 24 && Number(match[2]) < 60;
+}
+
+// Normalizes e.g. '9:30' to '09:30'
+export function normalizeEventTime(time: string): string {
+  const [hours, minutes] = time.split(':');
+  return `${hours.padStart(2, '0')}:${minutes}`;
+}
+
+// The instant a local date and time refer to, e.g. for scheduling
+export function parseLocalDateTime(date: string, time: string): Date | null {
+  const day = parseDate(date);
+  if (!day || !isValidEventTime(time)) return null;
+  const [hours, minutes] = time.split(':').map(Number);
+  day.setHours(hours, minutes);
+  return day;
+}
+
+// Inverse of parseLocalDateTime, for prefilling date and time inputs
+export function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function toTimeInput(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Time left as e.g. "2d 4h 12m", with seconds only in the last hour
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+}
+
+/**
+ * Whole calendar days from today until the event date (negative once it has passed)
+ */
+export function daysUntil(date: string, now: Date = new Date()): number | null {
+  const eventDay = parseDate(date);
+  if (!eventDay) return null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((eventDay.getTime() - today.getTime()) / MS_PER_DAY);
+}
+
+export function formatDaysUntil(days: number): string {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  if (days === -1) return 'yesterday';
+  return days > 0 ? `in ${days} days` : `${-days} days ago`;
+}
+
+export function formatEventDate(date: string, time?: string | null): string {
+  const day = parseDate(date);
+  if (!day) return date;
+  const formatted = day.toLocaleDateString('en-US', {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  if (!time || !isValidEventTime(time)) return formatted;
+
+  const [hours, minutes] = time.split(':').map(Number);
+  day.setHours(hours, minutes);
+  return `${formatted} at ${day.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+export function formatBudget(amount: number, currency?: string | null): string {
+  const fractionDigits = Number.isInteger(amount) ? 0 : 2;
+  if (!currency) {
+    return amount.toFixed(fractionDigits);
+  }
+  try {
+    return amount.toLocaleString('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+  } catch (error) {
+    // Unknown currency code
+    return `${amount.toFixed(fractionDigits)} ${currency}`;
+  }
+}
+
+/**
+ * Parses a spending limit typed by the user, accepting a decimal comma (e.g. '29,99')
+ */
+export function parseBudget(input: string): number | null {
+  const normalized = input.trim().replace(',', '.');
+  if (!/^\d+(\.\d{1,2})?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+export function hasEventDetails(group: Group): boolean {
+  return !!(group.event_date || group.budget != null || group.location || group.rules);
+}
+
+/**
+ * One-line summary of the exchange for lists, e.g. "in 12 days · €30"
+ */
+export function eventSummary(group: Group, now: Date = new Date()): string | null {
+  const parts: string[] = [];
+  if (group.event_date) {
+    const days = daysUntil(group.event_date, now);
+    if (days !== null) {
+      parts.push(formatDaysUntil(days));
+    }
+  }
+  if (group.budget != null) {
+    parts.push(formatBudget(group.budget, group.currency));
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
@@ -0,0 +1,28 @@
+import { Group, Household } from '../types/group';
+
+export interface HouseholdExclusion {
+  giver_id: number;
+  excluded_user_id: number;
+  household_id: number;
+}
+
+/**
+ * Exclusions implied by the households: every member is excluded from drawing
+ * every other member of the same household, in both directions. The server applies
+ * these itself when the draw runs; the app uses them to check a draw is still possible.
+ */
+export function householdExclusions(households: Household[], memberIds: number[]): HouseholdExclusion[] {
+  const current = new Set(memberIds);
+  return households.flatMap((household) => {
+    // Members who have left the group no longer count
+    const members = household.member_ids.filter(id => current.has(id));
+    return members.flatMap(giverId => members
+      .filter(excludedId => excludedId !== giverId)
+      .map(excludedId => ({ giver_id: giverId, excluded_user_id: excludedId, household_id: household.id })));
+  });
+}
+
+// The household a member belongs to, if any (a member belongs to at most one)
+export function findHousehold(group: Group, memberId: number): Household | undefined {
+  return group.households?.find(household => household.member_ids.includes(memberId));
+}
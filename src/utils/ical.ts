@@ -0,0 +1,126 @@
+import { Group } from '../types/group';
+import { formatBudget } from './event';
+
+// RFC 5545: lines are separated by CRLF and folded so no line is longer than 75 octets
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+// Default length of an exchange with a start time, as the group has no end time
+const EVENT_DURATION = 'PT2H';
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Folds a content line, never splitting a multi-byte character. Continuation lines
+ * start with a space, which counts towards their length.
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+  return lines.join(CRLF);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+}
+
+/**
+ * The start (and end) of the exchange. With a time it is a floating local time, so it
+ * shows at that time wherever the calendar is; without one it is an all-day event.
+ */
+function eventTiming(date: string, time?: string | null): string[] {
+  const day = date.replace(/-/g, '');
+  if (time) {
+    return [`DTSTART:${day}T${time.replace(':', '')}00`, `DURATION:${EVENT_DURATION}`];
+  }
+  return [`DTSTART;VALUE=DATE:${day}`, `DTEND;VALUE=DATE:${nextDay(date)}`];
+}
+
+function eventDescription(group: Group, url: string): string {
+  const lines: string[] = [];
+  if (group.description) lines.push(group.description);
+  if (group.budget != null) lines.push(`Spending limit: ${formatBudget(group.budget, group.currency)}`);
+  if (group.rules) lines.push(`Rules: ${group.rules}`);
+  lines.push(`Open the group: ${url}`);
+  return lines.join('\n');
+}
+
+/**
+ * An iCalendar file with the group's gift exchange and a reminder the day before.
+ * The group must have an event date.
+ */
+export function buildGroupCalendar(group: Group, url: string, now: Date = new Date()): string {
+  if (!group.event_date) {
+    throw new Error('Group has no exchange date');
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Geschenk//Secret Santa//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    // Stable per group, so importing it again updates the event instead of duplicating it
+    `UID:group-${group.id}@geschenk25`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    ...eventTiming(group.event_date, group.event_time),
+    `SUMMARY:${escapeText(`🎁 ${group.name}`)}`,
+    ...(group.location ? [`LOCATION:${escapeText(group.location)}`] : []),
+    `DESCRIPTION:${escapeText(eventDescription(group, url))}`,
+    `URL:${url}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:-P1D',
+    `DESCRIPTION:${escapeText(`Gift exchange for ${group.name} is tomorrow`)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+// A file name for the calendar file, e.g. "family-christmas.ics"
+export function calendarFileName(group: Group): string {
+  const slug = group.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || `group-${group.id}`}.ics`;
+}
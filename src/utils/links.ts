@@ -0,0 +1,58 @@
+import { Platform } from 'react-native';
+
+const APP_SCHEME = 'geschenk25';
+
+// Where the web app is served; links opened on a device with the app installed open the app instead
+export function getWebOrigin(): string {
+  return Platform.OS === 'web' && typeof window !== 'undefined'
+    ? window.location.origin
+    : process.env.EXPO_PUBLIC_WEB_URL || 'https://geschenk25.vercel.app';
+}
+
+export function getInviteLinks(token: string): { native: string; web: string } {
+  return {
+    native: `${APP_SCHEME}://join/${token}`,
+    web: `${getWebOrigin()}/join/${token}`,
+  };
+}
+
+export function getClaimLinks(token: string): { native: string; web: string } {
+  return {
+    native: `${APP_SCHEME}://claim/${token}`,
+    web: `${getWebOrigin()}/claim/${token}`,
+  };
+}
+
+export function getRevealLink(token: string): string {
+  return `${getWebOrigin()}/reveal/${token}`;
+}
+
+export function getSlipLink(token: string): string {
+  return `${getWebOrigin()}/slip/${token}`;
+}
+
+// Short codes are typed in by hand, so case, spaces and dashes don't matter
+export function normalizeInviteCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+// Groups of four for reading out loud, e.g. "K7P2-QXMA"
+export function formatInviteCode(code: string): string {
+  return normalizeInviteCode(code).match(/.{1,4}/g)?.join('-') ?? '';
+}
+
+/**
+ * The deep link for a typed invite code or a pasted invite link, or null if it is neither
+ */
+export function inviteLinkFromInput(input: string): string | null {
+  const linkMatch = /\/join\/([^/?#\s]+)/.exec(input.trim());
+  if (linkMatch) {
+    return `${APP_SCHEME}://join/${linkMatch[1]}`;
+  }
+  const code = normalizeInviteCode(input);
+  return /^[A-Z0-9]{4,}$/.test(code) ? `${APP_SCHEME}://join/${code}` : null;
+}
+
+export function getGroupLink(groupId: number | string): string {
+  return `${getWebOrigin()}/groups/${groupId}`;
+}
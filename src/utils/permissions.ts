@@ -0,0 +1,68 @@
+import { Group, GroupMember, GroupRole } from '../types/group';
+
+export type GroupPermission =
+  | 'invite'
+  | 'cancel_invitation'
+  | 'review_join_requests'
+  | 'remove_member'
+  | 'manage_exclusions'
+  | 'manage_households'
+  | 'assign'
+  | 'delete_assignments'
+  | 'manage_rounds'
+  | 'edit_details'
+  | 'manage_roles'
+  | 'transfer_ownership'
+  | 'delete_group';
+
+const ADMIN_PERMISSIONS: GroupPermission[] = [
+  'invite',
+  'cancel_invitation',
+  'review_join_requests',
+  'remove_member',
+  'manage_exclusions',
+  'manage_households',
+  'assign',
+  'delete_assignments',
+  'manage_rounds',
+];
+
+// The owner can do everything; editing the group itself and handing out roles stays with the owner
+const ROLE_PERMISSIONS: Record<GroupRole, GroupPermission[]> = {
+  owner: [...ADMIN_PERMISSIONS, 'edit_details', 'manage_roles', 'transfer_ownership', 'delete_group'],
+  admin: ADMIN_PERMISSIONS,
+  member: [],
+};
+
+/**
+ * A member's role, or null if they are not a member. The creator is always the owner,
+ * also for groups loaded before roles were introduced.
+ */
+export function getRole(group: Group, userId: number | null): GroupRole | null {
+  if (userId === null) return null;
+  if (userId === group.created_by) return 'owner';
+  const member = group.members?.find(m => m.id === userId);
+  if (!member) return null;
+  return member.role === 'admin' ? 'admin' : 'member';
+}
+
+export function hasPermission(group: Group, userId: number | null, permission: GroupPermission): boolean {
+  const role = getRole(group, userId);
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Members who take part in the draw. The owner of a managed group only organizes it.
+ */
+export function getParticipants(group: Group): GroupMember[] {
+  const members = group.members || [];
+  return group.is_managed ? members.filter(m => m.id !== group.created_by) : members;
+}
+
+// Admins can remove regular members; only the owner can remove an admin, and nobody the owner
+export function canRemoveMember(group: Group, userId: number | null, memberId: number): boolean {
+  if (memberId === userId || !hasPermission(group, userId, 'remove_member')) return false;
+  const memberRole = getRole(group, memberId);
+  if (memberRole === 'owner') return false;
+  return memberRole !== 'admin' || getRole(group, userId) === 'owner';
+}
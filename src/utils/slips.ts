@@ -0,0 +1,113 @@
+import { Group, RoundPairing } from '../types/group';
+import { formatBudget, formatEventDate } from './event';
+import { encodeQrCode } from './qrcode';
+
+// Light border scanners need around the code, in modules
+const QR_QUIET_ZONE = 4;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * A QR code as an SVG image, one path segment per run of dark modules in a row
+ */
+function qrCodeSvg(text: string): string {
+  const modules = encodeQrCode(text);
+  const size = modules.length + QR_QUIET_ZONE * 2;
+  const runs: string[] = [];
+  modules.forEach((row, y) => {
+    let start = -1;
+    row.forEach((dark, x) => {
+      if (dark && start < 0) start = x;
+      if (start >= 0 && (!dark || x === row.length - 1)) {
+        const length = (dark ? x + 1 : x) - start;
+        runs.push(`M${start + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h${length}v1h-${length}z`);
+        start = -1;
+      }
+    });
+  });
+  return `<svg class="qr" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`
+    + `<rect width="${size}" height="${size}" fill="#fff"/><path d="${runs.join('')}" fill="#000"/></svg>`;
+}
+
+function slipDetails(group: Group): string[] {
+  const details: string[] = [];
+  if (group.event_date) details.push(formatEventDate(group.event_date, group.event_time));
+  if (group.budget != null) details.push(`Spending limit: ${formatBudget(group.budget, group.currency)}`);
+  return details;
+}
+
+function slip(group: Group, pairing: RoundPairing, giftIdeasUrl: string | undefined): string {
+  const details = slipDetails(group)
+    .map(detail => `<p class="detail">${escapeHtml(detail)}</p>`)
+    .join('');
+  return `<section class="slip">
+  <div class="giver">
+    <p class="label">${escapeHtml(group.name)}</p>
+    <p class="name">For ${escapeHtml(pairing.giver_display_name)}</p>
+  </div>
+  <div class="receiver">
+    <div>
+      <p class="label">You're giving a gift to</p>
+      <p class="name">${escapeHtml(pairing.receiver_display_name)}</p>
+      ${details}
+    </div>
+    ${giftIdeasUrl ? `<div class="ideas">
+      ${qrCodeSvg(giftIdeasUrl)}
+      <p class="label">Scan for gift ideas</p>
+    </div>` : ''}
+  </div>
+  <div class="cover">Fold up along the line to cover the name</div>
+</section>`;
+}
+
+/**
+ * A print-ready page with one slip per giver. Each slip is folded up along the dashed
+ * line so its blank back covers the receiver, leaving only the giver's name visible.
+ * The QR code links to the receiver's gift ideas, keyed by giver id.
+ */
+export function buildDrawSlips(
+  group: Group,
+  pairings: RoundPairing[],
+  giftIdeasUrls: Record<number, string>
+): string {
+  const slips = [...pairings]
+    .sort((a, b) => a.giver_display_name.localeCompare(b.giver_display_name))
+    .map(pairing => slip(group, pairing, giftIdeasUrls[pairing.giver_id]))
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(group.name)} – Secret Santa slips</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111; }
+  p { margin: 0; }
+  .slip { border: 1px solid #999; margin-bottom: 8mm; page-break-inside: avoid; break-inside: avoid; }
+  .giver { padding: 4mm 6mm; border-bottom: 1px solid #ddd; }
+  .receiver, .cover { height: 45mm; }
+  .receiver { display: flex; align-items: center; justify-content: space-between; gap: 6mm; padding: 0 6mm; }
+  .cover { display: flex; align-items: center; justify-content: center; border-top: 1px dashed #999; color: #999; font-size: 9pt; }
+  .label { font-size: 9pt; color: #666; }
+  .name { font-size: 18pt; font-weight: 600; margin: 1mm 0 2mm; }
+  .detail { font-size: 10pt; color: #333; }
+  .ideas { text-align: center; }
+  .qr { width: 32mm; height: 32mm; display: block; margin: 0 auto 1mm; }
+</style>
+</head>
+<body>
+${slips}
+</body>
+</html>
+`;
+}